@@ -0,0 +1,126 @@
+import type { HmOog, RunOptions } from '../handling.js';
+import type { ScriptArguments } from '../scriptArguments.js';
+import { ExecutionResult } from '../types.js';
+import { parseLockFeedback } from './feedback.js';
+import { defaultSolvers } from './solvers.js';
+import { LockSolver, LockSolverFactory } from './types.js';
+
+export enum BreachStatus {
+    /** Every lock is open. */
+    SUCCESS,
+    /** A lock was found that there's no solver for. */
+    UNKNOWN_LOCK,
+    /** The solver of a lock ran out of guesses. */
+    EXHAUSTED,
+    /** The step budget was used up before every lock was open. */
+    OUT_OF_STEPS,
+    /** The target couldn't be run. */
+    NO_RESULT,
+    /** The target failed, or said something that's neither a lock nor every lock being open. */
+    FAILURE,
+}
+
+export type BreachResult = {
+    status: BreachStatus,
+    /** The arguments of the last call, which open the target if it was a success. */
+    args: ScriptArguments,
+    /** How many times the target was called. */
+    steps: number,
+    /** The lock that's still closed, or null if none is (or none was found). */
+    lock: string | null,
+    /** The locks that were opened, in order. */
+    unlocked: string[],
+    /** The result of the last call. */
+    result: ExecutionResult | null,
+};
+
+export type BreacherOptions = {
+    /** Solvers by lock name. Defaults to {@link defaultSolvers}. */
+    solvers: Record<string, LockSolverFactory>,
+    /** The most times the target is called. */
+    maxSteps: number,
+    /** Options for every call of the target. */
+    runOptions: Partial<RunOptions>,
+};
+
+/**
+ * Breaches a target's locks by calling it over and over, asking a solver
+ * for the next guess for whichever lock denies access.
+ *
+ * ```ts
+ * const breach = await new Breacher(oog, 'some_user.some_loc').breach();
+ * if (breach.status === BreachStatus.SUCCESS) console.log(breach.args);
+ * ```
+ */
+export class Breacher {
+    private readonly oog: Pick<HmOog, 'call'>;
+    private readonly target: string;
+    private readonly options: BreacherOptions;
+
+    constructor(oog: Pick<HmOog, 'call'>, target: string, options?: Partial<BreacherOptions>) {
+        this.oog = oog;
+        this.target = target;
+        this.options = {
+            solvers: defaultSolvers,
+            maxSteps: 100,
+            runOptions: {},
+            ...options,
+        };
+    }
+
+    /**
+     * @param initialArgs Arguments to start with, e.g. answers that are already known
+     */
+    async breach(initialArgs: ScriptArguments = {}): Promise<BreachResult> {
+        const solvers = new Map<string, LockSolver>();
+        const unlocked: string[] = [];
+
+        let args: ScriptArguments = { ...initialArgs };
+        let lock: string | null = null;
+        let steps = 0;
+
+        const finish = (status: BreachStatus, result: ExecutionResult | null): BreachResult =>
+            ({ status, args, steps, lock, unlocked, result });
+
+        while (true) {
+            const result = await this.oog.call(this.target, args, {
+                ...this.options.runOptions,
+                throwOnFailure: false,
+            });
+            steps++;
+
+            if (!result) return finish(BreachStatus.NO_RESULT, null);
+            if (result.success === false) return finish(BreachStatus.FAILURE, result);
+
+            const feedback = parseLockFeedback(result.uncolored.raw);
+            for (const unlockedLock of feedback.unlocked) {
+                if (!unlocked.includes(unlockedLock)) unlocked.push(unlockedLock);
+            }
+
+            // Errors and missing parameters without a lock name are about the lock from last time.
+            const isStillLocked = feedback.error || feedback.missingParameter !== null;
+            lock = feedback.lock ?? (isStillLocked ? lock : null);
+            if (lock === null) {
+                // Only call it a success if the target actually says so, and didn't just print something else.
+                const isOpen = feedback.terminated || feedback.unlocked.length > 0;
+                return finish(isOpen ? BreachStatus.SUCCESS : BreachStatus.FAILURE, result);
+            }
+
+            let solver = solvers.get(lock);
+            if (!solver) {
+                const makeSolver = this.options.solvers[lock];
+                if (!makeSolver) return finish(BreachStatus.UNKNOWN_LOCK, result);
+
+                solver = makeSolver();
+                solvers.set(lock, solver);
+            }
+
+            const guess = solver.next(feedback, args);
+            if (!guess) return finish(BreachStatus.EXHAUSTED, result);
+
+            if (steps >= this.options.maxSteps) return finish(BreachStatus.OUT_OF_STEPS, result);
+
+            args = { ...args, ...guess };
+        }
+    }
+}
@@ -0,0 +1,27 @@
+import { LockFeedback } from './types.js';
+
+const deniedRegex = /Denied access by (?:.* )?(\S+) lock/;
+const unlockedRegex = /LOCK_UNLOCKED (\S+)/g;
+const missingParameterRegex = /Required unlock parameter (\S+) is missing/;
+const errorRegex = /LOCK_ERROR|is not the correct/;
+const terminatedRegex = /Connection terminated/;
+/** DATA_CHECK's questions have a blank to fill in, and come without a denied message. */
+const dataCheckQuestion = '++++++';
+
+/**
+ * Parses what a lock printed, so it can be handed to a {@link LockSolver}.
+ * @param text The output of the target, uncolored
+ */
+export const parseLockFeedback = (text: string): LockFeedback => {
+    const denied = deniedRegex.exec(text);
+    const missingParameter = missingParameterRegex.exec(text);
+
+    return {
+        lock: denied?.[1] ?? (text.includes(dataCheckQuestion) ? 'DATA_CHECK' : null),
+        unlocked: [ ...text.matchAll(unlockedRegex) ].map(match => match[1]),
+        error: errorRegex.test(text),
+        terminated: terminatedRegex.test(text),
+        missingParameter: missingParameter?.[1] ?? null,
+        lines: text.split('\n'),
+    };
+};
@@ -0,0 +1,174 @@
+import type { ScriptArgument, ScriptArguments } from '../scriptArguments.js';
+import { LockFeedback, LockSolver, LockSolverFactory } from './types.js';
+
+/** The commands the EZ locks accept. */
+export const ezCommands = [ 'open', 'unlock', 'release' ];
+/** The primes EZ_40 accepts. */
+export const ezPrimes = [ 2, 3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37, 41, 43, 47, 53, 59, 61, 67, 71, 73, 79, 83, 89, 97 ];
+/** The colors of the c00x locks, in the order of the color wheel. */
+export const colorWheel = [ 'red', 'orange', 'yellow', 'lime', 'green', 'cyan', 'blue', 'purple' ];
+/** The security k3ys l0cket accepts. */
+export const l0cketKeys = [
+    '6hh8xw', 'cmppiq', 'sa23uw', 'tvfkyq', 'uphlaw', 'vc2c7q', 'xwz7ja', 'i874y3', '72umy0', '5c7e1r',
+    'hc3b69', 'nfijix', '4jitu5', 'vthf6e', 'lq09tg', '9p65cu', 'eoq6de', 'xfnkqe', 'pmvr1q', 'y111qa',
+    'ellux0', 'voon2h', 'j1aa4n', 'ooilt2', 'd8s9ry', 'dbk7xn', '4ocvtf', 'rhbfmz', 'fkjayo', '9d37kd',
+    'qu2hyp', '2ftplw', '0jk1h9',
+];
+
+/** Answers to DATA_CHECK's questions, by a part of the question that identifies it. */
+export const dataCheckAnswers: Record<string, string> = {
+    'did you know is a communication pattern common to user': 'fran_lee',
+    'is a household cleaning device with a rudimentary networked sentience': 'robovac',
+    'according to trust, ++++++ is more than just following directives': 'sentience',
+    'demonstrate structural patterns associated with humor': 'sans_comedy',
+    'you became one of angie\'s': 'angels',
+    'you became one of mallory\'s': 'minions',
+    'you discovered that mallory and che are': 'sisters',
+    'you encountered the will of ++++++, the prover': 'petra',
+    'you visited faythe\'s': 'fountain',
+    'you were required to hack halperyon.': 'helpdesk',
+    'pet, pest, plague and meme are accurate descriptors of the': 'bunnybat',
+    'safety depends on the use of scripts.': 'get_level',
+    'provides atmospheric updates via the port epoch environment': 'weathernet',
+    'this fact checking process is a function of ++++++, the monitor': 'eve',
+    'emphasized the importance of the transfer and capture of': 'resource',
+    'presented a version of angie who had lost a friend called': 'bo',
+    'has ++++++ many things': 'heard',
+    'provides instruction via script': 'teach',
+    'uses the port epoch environment to request gc': 'outta_juice',
+    'users gather in channel CAFE to share': 'poetry',
+};
+
+/** A parameter of a lock, and the values to try for it. */
+export type LockStage = {
+    parameter: string,
+    /** The values to try in order, or a function choosing them based on the earlier parameters. */
+    candidates: ScriptArgument[] | ((args: ScriptArguments) => ScriptArgument[]),
+};
+
+/**
+ * Solves locks that ask for one parameter after another, trying the candidates
+ * of each parameter in order until the lock asks for the next one.
+ */
+export class SequentialLockSolver implements LockSolver {
+    private readonly stages: LockStage[];
+    private stage: number = -1;
+    private candidates: ScriptArgument[] = [];
+    private candidateIndex: number = 0;
+
+    constructor(stages: LockStage[]) {
+        this.stages = stages;
+    }
+
+    next(feedback: LockFeedback, args: ScriptArguments): ScriptArguments | null {
+        if (feedback.missingParameter !== null) {
+            const stage = this.stages.findIndex(stage => stage.parameter === feedback.missingParameter);
+            if (stage === -1) return null;
+
+            return this.startStage(stage, args);
+        }
+
+        if (this.stage === -1) return this.startStage(0, args);
+
+        // The lock is still denying access, so the last guess was wrong.
+        this.candidateIndex++;
+        return this.makeGuess();
+    }
+
+    private startStage(stage: number, args: ScriptArguments): ScriptArguments | null {
+        const candidates = this.stages[stage].candidates;
+
+        this.stage = stage;
+        this.candidates = typeof candidates === 'function' ? candidates(args) : candidates;
+        this.candidateIndex = 0;
+
+        return this.makeGuess();
+    }
+
+    private makeGuess(): ScriptArguments | null {
+        if (this.candidateIndex >= this.candidates.length) return null;
+        return { [this.stages[this.stage].parameter]: this.candidates[this.candidateIndex] };
+    }
+}
+
+/**
+ * Solves DATA_CHECK by asking for its questions, then answering all of them at once.
+ */
+export class DataCheckSolver implements LockSolver {
+    private readonly answers: Record<string, string>;
+    private hasAsked: boolean = false;
+    private hasAnswered: boolean = false;
+
+    /**
+     * @param answers Answers by a part of the question that identifies it, defaults to {@link dataCheckAnswers}
+     */
+    constructor(answers: Record<string, string> = dataCheckAnswers) {
+        this.answers = answers;
+    }
+
+    next(feedback: LockFeedback): ScriptArguments | null {
+        const questions = feedback.lines.filter(line => line.includes('++++++'));
+        if (questions.length === 0) {
+            if (this.hasAsked) return null;
+
+            this.hasAsked = true;
+            return { DATA_CHECK: '' };
+        }
+
+        if (this.hasAnswered) return null;
+        this.hasAnswered = true;
+
+        let answer = '';
+        for (const question of questions) {
+            const key = Object.keys(this.answers).find(key => question.includes(key));
+            if (key === undefined) return null;
+
+            answer += this.answers[key];
+        }
+
+        return { DATA_CHECK: answer };
+    }
+}
+
+/** Puts the likely candidates first, followed by everything else. */
+const preferring = <T extends ScriptArgument>(preferred: T[], all: T[]): T[] =>
+    [ ...preferred, ...all.filter(candidate => !preferred.includes(candidate)) ];
+
+const digits = [ 0, 1, 2, 3, 4, 5, 6, 7, 8, 9 ];
+
+const colorAt = (color: ScriptArgument | undefined, offset: number): string[] => {
+    const index = colorWheel.indexOf(String(color));
+    return index === -1 ? [] : [ colorWheel[(index + offset) % colorWheel.length] ];
+};
+
+/** Solvers for the tier 1 locks, by lock name. */
+export const defaultSolvers: Record<string, LockSolverFactory> = {
+    EZ_21: () => new SequentialLockSolver([
+        { parameter: 'EZ_21', candidates: ezCommands },
+    ]),
+    EZ_35: () => new SequentialLockSolver([
+        { parameter: 'EZ_35', candidates: ezCommands },
+        { parameter: 'digit', candidates: digits },
+    ]),
+    EZ_40: () => new SequentialLockSolver([
+        { parameter: 'EZ_40', candidates: ezCommands },
+        { parameter: 'ez_prime', candidates: ezPrimes },
+    ]),
+    c001: () => new SequentialLockSolver([
+        { parameter: 'c001', candidates: colorWheel },
+        { parameter: 'color_digit', candidates: args => preferring([ String(args.c001).length ], digits) },
+    ]),
+    c002: () => new SequentialLockSolver([
+        { parameter: 'c002', candidates: colorWheel },
+        { parameter: 'c002_complement', candidates: args => preferring(colorAt(args.c002, 4), colorWheel) },
+    ]),
+    c003: () => new SequentialLockSolver([
+        { parameter: 'c003', candidates: colorWheel },
+        { parameter: 'c003_triad_1', candidates: args => preferring(colorAt(args.c003, 5), colorWheel) },
+        { parameter: 'c003_triad_2', candidates: args => preferring(colorAt(args.c003, 3), colorWheel) },
+    ]),
+    l0cket: () => new SequentialLockSolver([
+        { parameter: 'l0cket', candidates: l0cketKeys },
+    ]),
+    DATA_CHECK: () => new DataCheckSolver(),
+};
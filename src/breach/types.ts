@@ -0,0 +1,36 @@
+import type { ScriptArguments } from '../scriptArguments.js';
+
+/** What a lock said about the last attempt, see {@link parseLockFeedback}. */
+export type LockFeedback = {
+    /** The lock that denied access, or null if none did. */
+    lock: string | null,
+    /** The locks that were unlocked on the way, in order. */
+    unlocked: string[],
+    /** Whether the lock rejected a value, e.g. with `LOCK_ERROR`. */
+    error: boolean,
+    /** Whether the target said `Connection terminated.`, which it does once every lock is open. */
+    terminated: boolean,
+    /** The parameter the lock asks for next, like `digit`, if any. */
+    missingParameter: string | null,
+    /** Every line of the output, for locks that ask questions. */
+    lines: string[],
+};
+
+/**
+ * Solves one kind of lock, one guess at a time.
+ *
+ * A solver is created for every lock it breaches, so it can keep state between guesses.
+ */
+export type LockSolver = {
+    /**
+     * Comes up with the next guess.
+     *
+     * @param feedback What the lock said about the last guess
+     * @param args Everything that was passed to the target last time, including other locks' answers
+     * @returns The arguments to add or change, or null if the solver is out of guesses
+     */
+    next(feedback: LockFeedback, args: ScriptArguments): ScriptArguments | null,
+};
+
+/** Creates a fresh solver for a lock. */
+export type LockSolverFactory = () => LockSolver;
@@ -0,0 +1,106 @@
+import type { HmOog } from './handling.js';
+import { ExecutionResult } from './types.js';
+import { ShellParser } from './terminal/parsing.js';
+import { TextConverter } from './terminal/text_converter.js';
+import { nameRegex, nameSegment } from './scriptArguments.js';
+
+export enum ChatMessageType {
+    /** A message sent to a channel. */
+    CHANNEL,
+    /** A tell someone sent to us. */
+    TELL_FROM,
+    /** A tell we sent to someone. */
+    TELL_TO,
+}
+
+/** A chat message, as it appeared in the shell. */
+export type ChatMessage = {
+    type: ChatMessageType,
+    /** The time the message was sent, as printed by the game, e.g. `1927`. */
+    timestamp: string,
+    /** The channel the message was sent to, if it's a channel message. */
+    channel?: string,
+    /** The sender of the message, or the recipient of a tell we sent. */
+    user: string,
+    /** The message itself, with colors removed. */
+    text: string,
+};
+
+const chatLineRegex = new RegExp(`^(\\d{4}) (?:(from|to) |(\\S+) )(${nameSegment}) :::(.*):::$`);
+
+/**
+ * Sends and receives chat messages.
+ *
+ * Incoming messages are only noticed once they make it into shell.txt,
+ * i.e. once the shell is flushed.
+ */
+export class Chat {
+    private readonly oog: Pick<HmOog, 'call' | 'onShellOutput'>;
+
+    constructor(oog: Pick<HmOog, 'call' | 'onShellOutput'>) {
+        this.oog = oog;
+    }
+
+    /**
+     * Parses a line of shell output as a chat message.
+     * @param line The line, still colored
+     * @returns The message, or null if the line isn't a chat message
+     */
+    static parseLine(line: string): ChatMessage | null {
+        const text = TextConverter.convert(ShellParser.parse(line, { lenient: true }));
+
+        const match = chatLineRegex.exec(text);
+        if (!match) return null;
+
+        const [ , timestamp, direction, channel, user, message ] = match;
+        if (direction) {
+            return {
+                type: direction === 'from' ? ChatMessageType.TELL_FROM : ChatMessageType.TELL_TO,
+                timestamp: timestamp,
+                user: user,
+                text: message,
+            };
+        }
+
+        return {
+            type: ChatMessageType.CHANNEL,
+            timestamp: timestamp,
+            channel: channel,
+            user: user,
+            text: message,
+        };
+    }
+
+    /**
+     * Sends a message to a channel via `chats.send`.
+     * @param channel The channel to send to, e.g. `0000`
+     * @param message The message to send
+     */
+    async send(channel: string, message: string): Promise<ExecutionResult | null> {
+        return this.oog.call('chats.send', { channel, msg: message });
+    }
+
+    /**
+     * Sends a message to a user via `chats.tell`.
+     * @param user The user to send to
+     * @param message The message to send
+     */
+    async tell(user: string, message: string): Promise<ExecutionResult | null> {
+        if (!nameRegex.test(user)) throw new Error(`Invalid user name: ${user}`);
+
+        return this.oog.call('chats.tell', { to: user, msg: message });
+    }
+
+    /**
+     * Calls the listener with every chat message that appears in the shell from now on.
+     * @returns A function that unsubscribes the listener
+     */
+    onMessage(listener: (message: ChatMessage) => void): () => void {
+        return this.oog.onShellOutput(chunk => {
+            for (const line of chunk.lines) {
+                const message = Chat.parseLine(line);
+                if (message) listener(message);
+            }
+        });
+    }
+}
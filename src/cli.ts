@@ -0,0 +1,242 @@
+#!/usr/bin/env node
+import process from 'node:process';
+import { Console } from 'node:console';
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { HmOog } from './handling.js';
+import { ConsoleLogger, LogLevel } from './logger.js';
+import FileWatcher from './fileWatcher.js';
+import { ShellReader } from './shellReader.js';
+import { HardlineState, HardlineStateMachine, HardlineStatus } from './hardline.js';
+import { AnsiConverter, AnsiConverterOptions } from './terminal/ansi_converter.js';
+import { ColorDepth } from './terminal/colors.js';
+import { ShellParser } from './terminal/parsing.js';
+import { ExecutionResult } from './types.js';
+import { getShellPath } from './utils.js';
+
+const usage = `Usage: hmoog <command> [options]
+
+Commands:
+  run <command...>             Runs a command and prints its result
+  tail                         Follows shell.txt live
+  hardline enter|exit|status   Manages the hardline
+  render <file>                Renders shell text (or - for stdin) as ANSI
+
+Options:
+  --format ansi|plain|json     Output format of run (default: ansi)
+  --color-depth none|8bit|256|truecolor
+                               Color depth of ANSI output (default: truecolor)
+  --timeout <ms>               Timeout of run (default: none)
+  --shell-path <path>          Path to shell.txt (default: autodetected)
+  -h, --help                   Shows this help
+
+Exit codes: 0 on success, 1 if the script reported Failure, 2 on errors.`;
+
+const colorDepths: Record<string, ColorDepth> = {
+    'none': ColorDepth.NONE,
+    '8bit': ColorDepth.EIGHT_BIT,
+    '256': ColorDepth.PALETTE_256,
+    'truecolor': ColorDepth.TRUE_COLOR,
+};
+
+type OutputFormat = 'ansi' | 'plain' | 'json';
+const outputFormats: OutputFormat[] = [ 'ansi', 'plain', 'json' ];
+
+enum ExitCode {
+    SUCCESS = 0,
+    FAILURE = 1,
+    ERROR = 2,
+}
+
+class UsageError extends Error {}
+
+type CliOptions = {
+    format: OutputFormat,
+    ansiOptions: Partial<AnsiConverterOptions>,
+    timeout: number,
+    shellPath?: string,
+};
+
+const formatResult = (result: ExecutionResult, format: OutputFormat): string => {
+    switch (format) {
+        case 'ansi':
+            return result.ansi.raw;
+        case 'plain':
+            return result.uncolored.raw;
+        case 'json':
+            return JSON.stringify(result, null, 2);
+    }
+};
+
+const describeHardlineStatus = (status: HardlineStatus): string => {
+    switch (status.state) {
+        case HardlineState.ACTIVATING:
+            return 'activating';
+        case HardlineState.ACTIVE:
+            return 'active';
+        case HardlineState.RECALIBRATING:
+            return `recalibrating, ${Math.ceil(status.cooldown / 1000)}s left`;
+        case HardlineState.NONE_AVAILABLE:
+            return `no hardlines available, ${Math.ceil(status.cooldown / 1000)}s left`;
+        case HardlineState.ALREADY_ACTIVE:
+            return 'already active';
+        case HardlineState.DISCONNECTED:
+            return 'disconnected';
+    }
+};
+
+/**
+ * Runs the block with an initialized HmOog, closing it again afterwards.
+ * Its messages go to stderr, so they can't end up in the output, e.g. in the middle of the JSON.
+ */
+const withOog = async <T>(options: CliOptions, block: (oog: HmOog) => Promise<T>): Promise<T> => {
+    const oog = new HmOog({
+        shellPath: options.shellPath,
+        ansiOptions: options.ansiOptions,
+        logger: new ConsoleLogger(LogLevel.INFO, new Console(process.stderr)),
+    });
+
+    try {
+        await oog.init();
+        return await block(oog);
+    } finally {
+        oog.close();
+    }
+};
+
+const runCommand = async (args: string[], options: CliOptions): Promise<ExitCode> => {
+    if (args.length === 0) throw new UsageError('Missing command to run!');
+
+    const result = await withOog(options, oog => oog.run(args.join(' '), { timeout: options.timeout }));
+    if (!result) return ExitCode.ERROR;
+
+    console.log(formatResult(result, options.format));
+    return result.success === false ? ExitCode.FAILURE : ExitCode.SUCCESS;
+};
+
+const tail = async (options: CliOptions): Promise<ExitCode> => {
+    const shellPath = options.shellPath ?? getShellPath();
+    const fileWatcher = new FileWatcher(shellPath);
+    const shellReader = new ShellReader(shellPath, fileWatcher);
+
+    shellReader.subscribe(chunk => {
+        console.log(AnsiConverter.convert(chunk.nodes, options.ansiOptions));
+    });
+
+    await new Promise<void>(resolve => process.once('SIGINT', resolve));
+    fileWatcher.close();
+
+    return ExitCode.SUCCESS;
+};
+
+const hardline = async (args: string[], options: CliOptions): Promise<ExitCode> => {
+    switch (args[0]) {
+        case 'status': {
+            // A fresh process knows nothing, so go by what the shell said last.
+            const shellPath = options.shellPath ?? getShellPath();
+            const stateMachine = new HardlineStateMachine();
+            stateMachine.feed((await readFile(shellPath, { encoding: 'utf-8' })).split('\n'));
+
+            console.log(describeHardlineStatus(stateMachine.getStatus()));
+            return stateMachine.isActive() ? ExitCode.SUCCESS : ExitCode.FAILURE;
+        }
+        case 'enter':
+            return withOog(options, async oog => {
+                const status = await oog.enterHardline();
+                console.log(describeHardlineStatus(status));
+                return oog.isInHardline() ? ExitCode.SUCCESS : ExitCode.FAILURE;
+            });
+        case 'exit':
+            return withOog(options, async oog => {
+                const success = await oog.exitHardline();
+                console.log(success ? 'disconnected' : 'failed to disconnect');
+                return success ? ExitCode.SUCCESS : ExitCode.FAILURE;
+            });
+        default:
+            throw new UsageError('Expected enter, exit or status!');
+    }
+};
+
+const render = async (args: string[], options: CliOptions): Promise<ExitCode> => {
+    if (args.length !== 1) throw new UsageError('Expected exactly one file to render!');
+
+    const input = args[0] === '-'
+        ? await readStdin()
+        : await readFile(args[0], { encoding: 'utf-8' });
+
+    const parser = new ShellParser(input, { lenient: true });
+    process.stdout.write(AnsiConverter.convert(parser.parseAll(), options.ansiOptions));
+
+    for (const diagnostic of parser.getDiagnostics()) {
+        process.stderr.write(`${diagnostic.start}-${diagnostic.end}: ${diagnostic.message}\n`);
+    }
+
+    return ExitCode.SUCCESS;
+};
+
+const readStdin = async (): Promise<string> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+        chunks.push(chunk);
+    }
+
+    return Buffer.concat(chunks).toString('utf-8');
+};
+
+const main = async (argv: string[]): Promise<ExitCode> => {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            'format': { type: 'string', default: 'ansi' },
+            'color-depth': { type: 'string', default: 'truecolor' },
+            'timeout': { type: 'string', default: '0' },
+            'shell-path': { type: 'string' },
+            'help': { type: 'boolean', short: 'h' },
+        },
+    });
+
+    if (values.help || positionals.length === 0) {
+        console.log(usage);
+        return values.help ? ExitCode.SUCCESS : ExitCode.ERROR;
+    }
+
+    // Checked up front, so a typo can't get noticed only after the command already ran.
+    const format = values.format as OutputFormat;
+    if (!outputFormats.includes(format)) throw new UsageError(`Unknown format: ${values.format}`);
+
+    const colorDepth = colorDepths[values['color-depth']];
+    if (colorDepth === undefined) throw new UsageError(`Unknown color depth: ${values['color-depth']}`);
+
+    const timeout = parseInt(values.timeout);
+    if (isNaN(timeout)) throw new UsageError(`Invalid timeout: ${values.timeout}`);
+
+    const options: CliOptions = {
+        format: format,
+        ansiOptions: { colorDepth },
+        timeout: timeout,
+        shellPath: values['shell-path'],
+    };
+
+    const [ command, ...args ] = positionals;
+    switch (command) {
+        case 'run':
+            return runCommand(args, options);
+        case 'tail':
+            return tail(options);
+        case 'hardline':
+            return hardline(args, options);
+        case 'render':
+            return render(args, options);
+        default:
+            throw new UsageError(`Unknown command: ${command}`);
+    }
+};
+
+main(process.argv.slice(2))
+    .then(exitCode => process.exit(exitCode))
+    .catch(error => {
+        console.error(error instanceof Error ? error.message : error);
+        if (error instanceof UsageError) console.error(`\n${usage}`);
+        process.exit(ExitCode.ERROR);
+    });
@@ -0,0 +1,133 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/** How urgently a queued command should run. Higher priorities jump ahead of lower ones. */
+export enum CommandPriority {
+    LOW,
+    NORMAL,
+    HIGH,
+}
+
+/** A command waiting in (or currently running from) the {@link CommandQueue}. */
+export type PendingCommand = {
+    /** Unique, increasing ID of the command. */
+    id: number,
+    /** What the command does, e.g. the command being run. */
+    description: string,
+    priority: CommandPriority,
+    /** When the command was queued, in milliseconds since the epoch. */
+    queuedAt: number,
+};
+
+type QueueEntry = PendingCommand & {
+    start: () => void,
+};
+
+/**
+ * Runs tasks one at a time, highest priority first and in order of arrival within a priority.
+ */
+export class CommandQueue {
+    private readonly entries: QueueEntry[] = [];
+    private active: PendingCommand | null = null;
+    private nextId: number = 0;
+    /** The queue of the exclusive section the caller is in, see {@link exclusive}. */
+    private readonly section = new AsyncLocalStorage<CommandQueue>();
+
+    /**
+     * Queues a task, running it once everything before it has finished.
+     *
+     * @param description What the task does, for introspection
+     * @param priority The priority of the task
+     * @param task The task to run
+     * @param signal Removes the task from the queue if aborted before it started, rejecting with the signal's reason
+     * @returns The result of the task
+     */
+    enqueue<T>(description: string, priority: CommandPriority, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        const section = this.section.getStore();
+        if (section) return section.enqueue(description, priority, task, signal);
+
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(signal.reason);
+                return;
+            }
+
+            const onAbort = () => {
+                const index = this.entries.indexOf(entry);
+                if (index === -1) return;
+
+                this.entries.splice(index, 1);
+                reject(signal!.reason);
+            };
+
+            const entry: QueueEntry = {
+                id: this.nextId++,
+                description: description,
+                priority: priority,
+                queuedAt: Date.now(),
+                start: () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    task().then(resolve, reject).finally(() => this.runNext());
+                },
+            };
+
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            const insertIndex = this.entries.findIndex(other => other.priority < priority);
+            if (insertIndex === -1) {
+                this.entries.push(entry);
+            } else {
+                this.entries.splice(insertIndex, 0, entry);
+            }
+
+            if (!this.active) this.runNext();
+        });
+    }
+
+    /**
+     * Queues a block that holds the queue until it's done, like a single task.
+     *
+     * Tasks the block queues, even further down its calls, run in the meantime in their own queue.
+     * Everything else waits until the block is done.
+     *
+     * @param description What the block does, for introspection
+     * @param priority The priority of the block
+     * @param block The block to run
+     * @param signal Removes the block from the queue if aborted before it started, rejecting with the signal's reason
+     * @returns The result of the block
+     */
+    exclusive<T>(description: string, priority: CommandPriority, block: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        const section = this.section.getStore();
+        if (section) return section.exclusive(description, priority, block, signal);
+
+        return this.enqueue(description, priority, () => this.section.run(new CommandQueue(), block), signal);
+    }
+
+    /** The number of commands waiting to run, not including the active one. */
+    getDepth(): number {
+        return this.entries.length;
+    }
+
+    /** The commands waiting to run, in the order they will run in. */
+    getPending(): PendingCommand[] {
+        return this.entries.map(entry => toPendingCommand(entry));
+    }
+
+    /** The command that's currently running, if any. */
+    getActive(): PendingCommand | null {
+        return this.active;
+    }
+
+    private runNext() {
+        const entry = this.entries.shift();
+        if (!entry) {
+            this.active = null;
+            return;
+        }
+
+        this.active = toPendingCommand(entry);
+        entry.start();
+    }
+}
+
+const toPendingCommand = ({ id, description, priority, queuedAt }: QueueEntry): PendingCommand =>
+    ({ id, description, priority, queuedAt });
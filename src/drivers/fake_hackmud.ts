@@ -0,0 +1,249 @@
+import { appendFileSync } from 'node:fs';
+import { InputDriver } from './types.js';
+import {
+    ACTIVATING_HARDLINE_MESSAGE,
+    FAILURE_MESSAGE,
+    FLUSH_MESSAGE,
+    HARDLINE_ACTIVE_MESSAGE,
+    HARDLINE_ALREADY_ACTIVE_MESSAGE,
+    HARDLINE_DISCONNECTED_MESSAGE,
+    HARDLINE_RECALIBRATING_MESSAGE,
+    NO_HARDLINES_AVAILABLE_MESSAGE,
+    SUCCESS_MESSAGE
+} from '../constants.js';
+import { encodeAngledBrackets } from '../utils.js';
+import { nameRegex } from '../scriptArguments.js';
+
+/** What a fake script prints. */
+export type FakeScriptResult = {
+    /** Prints Success or Failure before the output if set. */
+    success?: boolean,
+    /** The (colored) lines the script outputs. */
+    lines: string[],
+};
+
+/**
+ * Handles a command typed into {@link FakeHackmud}.
+ * @param command The full command, including arguments
+ */
+export type FakeScriptHandler = (command: string) => FakeScriptResult | string[];
+
+export type FakeHackmudOptions = {
+    /** Seconds until a hardline is available again, 0 if one is available right now. */
+    hardlineCooldown: number,
+    /** Whether a hardline cooldown is reported as recalibrating instead of no hardlines being available. */
+    recalibrating: boolean,
+    /** How many lines of digits the hardline activation swallows before the hardline is active. */
+    hardlineActivationLines: number,
+    /** The users that can be switched to with `user <name>`. Empty to allow any. */
+    users: string[],
+};
+
+/**
+ * An in-memory stand-in for the game, writing realistic shell.txt contents.
+ *
+ * Commands are echoed and answered like the game would, but only end up in
+ * shell.txt once they're flushed, either via `flush` or {@link autoFlush}.
+ * Scripts can be faked with {@link addScript}, everything else fails like an
+ * unknown script would.
+ */
+export class FakeHackmud implements InputDriver {
+    readonly shellPath: string;
+
+    /** Every command that was entered, in order. */
+    readonly commands: string[] = [];
+
+    private readonly options: FakeHackmudOptions;
+    private readonly scripts = new Map<string, FakeScriptHandler>();
+
+    private input: string = '';
+    private unflushedLines: string[] = [];
+
+    private currentUser: string | null = null;
+    /** Users with an active hardline. The null user is whoever was logged in before the first switch. */
+    private readonly hardlineUsers = new Set<string | null>();
+    private activationLinesLeft: number = 0;
+
+    constructor(shellPath: string, options?: Partial<FakeHackmudOptions>) {
+        this.shellPath = shellPath;
+        this.options = {
+            hardlineCooldown: 0,
+            recalibrating: false,
+            hardlineActivationLines: 12,
+            users: [],
+            ...options,
+        };
+
+        // The file needs to exist before anyone can watch it.
+        appendFileSync(this.shellPath, '');
+    }
+
+    async init(): Promise<boolean> {
+        return true;
+    }
+
+    sendKeystrokes(keys: string): boolean {
+        for (const key of keys) {
+            if (key !== '\n') {
+                this.input += key;
+                continue;
+            }
+
+            const command = this.input;
+            this.input = '';
+            this.enter(command);
+        }
+
+        return true;
+    }
+
+    sendEscape(): void {
+        this.input = '';
+    }
+
+    sendMouseClick(_x: number, _y: number, _rightClick: boolean): void {}
+
+    /**
+     * Fakes a script. The handler is called whenever a command calling it is entered.
+     * @param name The full script name, e.g. `accts.balance`
+     * @param handler Produces the script's output
+     */
+    addScript(name: string, handler: FakeScriptHandler) {
+        this.scripts.set(name, handler);
+    }
+
+    /** Prints lines to the shell without a command, like chat messages. */
+    print(...lines: string[]) {
+        this.unflushedLines.push(...lines);
+    }
+
+    /** Writes everything that hasn't been flushed yet to shell.txt, like the game does on its own. */
+    autoFlush() {
+        if (this.unflushedLines.length === 0) return;
+
+        appendFileSync(this.shellPath, this.unflushedLines.map(line => line + '\n').join(''));
+        this.unflushedLines = [];
+    }
+
+    /** Drops the hardline of the current user, if one is active. */
+    disconnectHardline() {
+        if (!this.hardlineUsers.delete(this.currentUser)) return;
+        this.print(HARDLINE_DISCONNECTED_MESSAGE);
+    }
+
+    /**
+     * Changes when the next hardline will be available.
+     * @param seconds Seconds until a hardline is available, 0 for right now
+     * @param recalibrating Whether to report the cooldown as recalibrating
+     */
+    setHardlineCooldown(seconds: number, recalibrating: boolean = false) {
+        this.options.hardlineCooldown = seconds;
+        this.options.recalibrating = recalibrating;
+    }
+
+    /**
+     * @param user The user to check, defaults to the current one
+     */
+    isHardlineActive(user: string | null = this.currentUser): boolean {
+        return this.hardlineUsers.has(user);
+    }
+
+    /** The user that's logged in, or null if there hasn't been a switch yet. */
+    getCurrentUser(): string | null {
+        return this.currentUser;
+    }
+
+    private enter(command: string) {
+        // The hardline activation only takes digits, everything else still works.
+        if (this.activationLinesLeft > 0 && /^\d*$/.test(command)) {
+            this.activationLinesLeft--;
+            if (this.activationLinesLeft === 0) {
+                this.hardlineUsers.add(this.currentUser);
+                this.print(HARDLINE_ACTIVE_MESSAGE);
+            }
+
+            return;
+        }
+
+        if (command === '') return;
+
+        this.commands.push(command);
+
+        if (command === 'flush') {
+            this.print(FLUSH_MESSAGE);
+            this.autoFlush();
+            return;
+        }
+
+        this.print(`<color=#FFFFFFFF>>>${encodeAngledBrackets(command)}</color>`);
+
+        const scriptName = command.split(' ')[0];
+        if (scriptName === 'user') {
+            this.switchUser(command.substring('user '.length).trim());
+            return;
+        }
+
+        if (scriptName === 'kernel.hardline') {
+            this.handleHardline(command);
+            return;
+        }
+
+        const handler = this.scripts.get(scriptName);
+        if (!handler) {
+            this.print(FAILURE_MESSAGE, 'script doesn\'t exist');
+            return;
+        }
+
+        const result = handler(command);
+        if (Array.isArray(result)) {
+            this.print(...result);
+            return;
+        }
+
+        if (result.success !== undefined) {
+            this.print(result.success ? SUCCESS_MESSAGE : FAILURE_MESSAGE);
+        }
+
+        this.print(...result.lines);
+    }
+
+    private handleHardline(command: string) {
+        if (/dc\s*:\s*true/.test(command)) {
+            if (this.isHardlineActive()) {
+                this.disconnectHardline();
+            } else {
+                this.print(FAILURE_MESSAGE, 'no hardline active');
+            }
+
+            return;
+        }
+
+        if (this.isHardlineActive()) {
+            this.print(HARDLINE_ALREADY_ACTIVE_MESSAGE);
+            return;
+        }
+
+        const cooldown = this.options.hardlineCooldown;
+        if (cooldown > 0) {
+            const message = this.options.recalibrating
+                ? HARDLINE_RECALIBRATING_MESSAGE
+                : NO_HARDLINES_AVAILABLE_MESSAGE;
+
+            this.print(`${message} ${cooldown}s remaining.`);
+            return;
+        }
+
+        this.print(ACTIVATING_HARDLINE_MESSAGE);
+        this.activationLinesLeft = this.options.hardlineActivationLines;
+    }
+
+    private switchUser(name: string) {
+        const users = this.options.users;
+        if (!nameRegex.test(name) || (users.length > 0 && !users.includes(name))) {
+            this.print(FAILURE_MESSAGE, `user ${name} doesn't exist`);
+            return;
+        }
+
+        this.currentUser = name;
+    }
+}
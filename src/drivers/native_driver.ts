@@ -0,0 +1,41 @@
+import { InputDriver } from './types.js';
+import { OogInitializationError, OogNotInitializedError } from '../errors.js';
+
+type NativeModule = typeof import('@sarahisweird/hmoog-native');
+
+/**
+ * Sends input to a running Hackmud instance via `@sarahisweird/hmoog-native`.
+ *
+ * The native module is only loaded in {@link init}, so merely importing HmOog
+ * works on systems the native module doesn't support.
+ */
+export class NativeInputDriver implements InputDriver {
+    private native?: NativeModule;
+
+    async init(): Promise<boolean> {
+        try {
+            this.native = await import('@sarahisweird/hmoog-native');
+        } catch (error) {
+            throw new OogInitializationError(`Couldn't load hmoog-native: ${error}`);
+        }
+
+        return this.native.init();
+    }
+
+    sendKeystrokes(keys: string): boolean {
+        return this.getNative().sendKeystrokes(keys);
+    }
+
+    sendEscape(): void {
+        this.getNative().sendEscape();
+    }
+
+    sendMouseClick(x: number, y: number, rightClick: boolean): void {
+        this.getNative().sendMouseClick(x, y, rightClick);
+    }
+
+    private getNative(): NativeModule {
+        if (!this.native) throw new OogNotInitializedError();
+        return this.native;
+    }
+}
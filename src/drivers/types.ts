@@ -0,0 +1,22 @@
+/**
+ * Sends input to the game.
+ *
+ * {@link HmOog} talks to Hackmud exclusively through this, so it can be swapped
+ * out for something that doesn't need a live game window, like {@link FakeHackmud}.
+ */
+export type InputDriver = {
+    /**
+     * Prepares the driver for sending input.
+     * @returns Whether initialization succeeded
+     */
+    init(): Promise<boolean>,
+    /**
+     * Types the given keys into the game.
+     * @returns Whether the keystrokes were sent
+     */
+    sendKeystrokes(keys: string): boolean,
+    /** Presses escape, clearing the current input. */
+    sendEscape(): void,
+    /** Clicks at the given position in the game window. */
+    sendMouseClick(x: number, y: number, rightClick: boolean): void,
+};
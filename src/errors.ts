@@ -1,3 +1,5 @@
+import { ExecutionResult } from './types.js';
+
 export class OogInitializationError extends Error {
     constructor(reason: string) {
         super(`Failed to initialize OOG: ${reason}`);
@@ -10,4 +12,55 @@ export class OogNotInitializedError extends Error {
     }
 }
 
-export class OogExecutionError extends Error {}
+export class OogExecutionError extends Error {
+    /** The command that was being executed, if any. */
+    readonly command?: string;
+    /** Whatever result could be read before things went wrong, or null if none could be read. */
+    readonly result: ExecutionResult | null;
+
+    constructor(message: string, command?: string, result: ExecutionResult | null = null) {
+        super(message);
+        this.command = command;
+        this.result = result;
+    }
+}
+
+/** The command didn't produce a result in time. */
+export class OogTimeoutError extends OogExecutionError {
+    /** The timeout that was exceeded, in milliseconds. */
+    readonly timeout: number;
+
+    constructor(command: string, timeout: number, result: ExecutionResult | null) {
+        super(`Execution of ${command} timed out after ${timeout}ms.`, command, result);
+        this.timeout = timeout;
+    }
+}
+
+/** The command never showed up in the shell, e.g. because the game window wasn't focused. */
+export class OogCommandNotEchoedError extends OogExecutionError {
+    constructor(command: string) {
+        super(`${command} never showed up in the shell.`, command);
+    }
+}
+
+/** The input driver failed to send keystrokes to the game. */
+export class OogSendError extends OogExecutionError {
+    constructor(command: string) {
+        super(`Failed to send ${command} via the input driver.`, command);
+    }
+}
+
+/** The script ran, but reported Failure. */
+export class OogScriptFailureError extends OogExecutionError {
+    declare readonly result: ExecutionResult;
+
+    constructor(command: string, result: ExecutionResult) {
+        super(`${command} failed: ${result.uncolored.raw}`, command, result);
+    }
+}
+
+export class OogTransferError extends OogExecutionError {
+    constructor(reason: string, command: string, result: ExecutionResult | null) {
+        super(`Failed to transfer GC: ${reason}`, command, result);
+    }
+}
@@ -1,12 +1,23 @@
 import { watch as watchFile } from 'node:fs/promises';
 
+export type FileWatcherOptions = {
+    /**
+     * Whether files being created, deleted or renamed count as changes, too.
+     * Useful for directories, and editors that save by replacing the file.
+     */
+    includeRenames: boolean,
+};
+
 export default class FileWatcher {
     private readonly filePath: string;
+    private readonly includeRenames: boolean;
     private listeners: (() => void)[] = [];
+    private readonly subscribers = new Set<(fileName: string | null) => void>();
     private abortController: AbortController;
 
-    constructor(filePath: string) {
+    constructor(filePath: string, options?: Partial<FileWatcherOptions>) {
         this.filePath = filePath;
+        this.includeRenames = options?.includeRenames ?? false;
         this.abortController = new AbortController();
 
         this.listen().then();
@@ -18,6 +29,18 @@ export default class FileWatcher {
         });
     }
 
+    /**
+     * Calls the listener on every change until unsubscribed.
+     *
+     * When watching a directory, the listener gets the name of the file that changed, if known.
+     *
+     * @returns A function that unsubscribes the listener
+     */
+    onChange(listener: (fileName: string | null) => void): () => void {
+        this.subscribers.add(listener);
+        return () => this.subscribers.delete(listener);
+    }
+
     close() {
         this.abortController.abort();
     }
@@ -30,12 +53,16 @@ export default class FileWatcher {
             });
 
             for await (const event of watcher) {
-                if (event.eventType !== 'change') continue;
+                if (event.eventType !== 'change' && !this.includeRenames) continue;
 
                 let listener;
                 while (listener = this.listeners.pop()) {
                     listener();
                 }
+
+                for (const subscriber of this.subscribers) {
+                    subscriber(event.filename);
+                }
             }
         } catch (error) {
             if (!(error instanceof Error) || error.name !== 'AbortError') throw error;
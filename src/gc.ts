@@ -0,0 +1,67 @@
+import { removeColors } from './utils.js';
+
+/** GC unit suffixes, smallest first. Each one is worth 1000 of the previous one. */
+const units = [ '', 'K', 'M', 'B', 'T', 'Q' ];
+
+const segmentRegex = /(\d+)([KMBTQ]?)/gy;
+
+/**
+ * Parses a GC amount as printed by hackmud, e.g. `1Q23T400B5M6K789GC`.
+ *
+ * Color tags are removed first, and the `GC` suffix is optional.
+ *
+ * @param str The amount to parse
+ * @returns The amount in GC
+ */
+export const parseGC = (str: string): bigint => {
+    let amountString = removeColors(str).trim();
+    if (amountString.endsWith('GC')) amountString = amountString.slice(0, -2);
+
+    const isNegative = amountString.startsWith('-');
+    if (isNegative) amountString = amountString.substring(1);
+
+    if (amountString.length === 0) throw new Error(`Invalid GC amount: ${str}`);
+
+    let amount = 0n;
+    let lastUnitIndex = units.length;
+    let parsedLength = 0;
+
+    segmentRegex.lastIndex = 0;
+    let match;
+    while (match = segmentRegex.exec(amountString)) {
+        const unitIndex = units.indexOf(match[2]);
+        if (unitIndex >= lastUnitIndex) throw new Error(`Invalid GC amount: ${str}`);
+
+        amount += BigInt(match[1]) * 1000n ** BigInt(unitIndex);
+        lastUnitIndex = unitIndex;
+        parsedLength += match[0].length;
+
+        if (unitIndex === 0) break;
+    }
+
+    if (parsedLength !== amountString.length) throw new Error(`Invalid GC amount: ${str}`);
+
+    return isNegative ? -amount : amount;
+};
+
+/**
+ * Formats a GC amount the way hackmud prints it, e.g. `1Q23T400B5M6K789GC`.
+ * @param amount The amount in GC
+ */
+export const formatGC = (amount: bigint): string => {
+    if (amount === 0n) return '0GC';
+    if (amount < 0n) return '-' + formatGC(-amount);
+
+    let result = '';
+    let remaining = amount;
+
+    for (let unitIndex = 0; remaining > 0n; unitIndex++) {
+        const isLargestUnit = unitIndex === units.length - 1;
+        const segment = isLargestUnit ? remaining : remaining % 1000n;
+        remaining = isLargestUnit ? 0n : remaining / 1000n;
+
+        if (segment !== 0n) result = `${segment}${units[unitIndex]}` + result;
+    }
+
+    return result + 'GC';
+};
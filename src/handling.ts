@@ -1,187 +1,642 @@
-import { getShellPath, removeColors, waitMs } from './utils.js';
-import * as native from '@sarahisweird/hmoog-native';
+import { encodeAngledBrackets, getShellPath, removeColors, toAsyncIterator, waitMs } from './utils.js';
 import FileWatcher from './fileWatcher.js';
-import { readFile } from 'node:fs/promises';
 import {
-    ACTIVATING_HARDLINE_MESSAGE,
     FAILURE_MESSAGE,
     FLUSH_MESSAGE,
     GREATER_THAN_ENCODED,
-    HARDLINE_ACTIVE_MESSAGE,
-    HARDLINE_ALREADY_ACTIVE_MESSAGE,
     HARDLINE_DISCONNECTED_MESSAGE,
-    HARDLINE_RECALIBRATING_MESSAGE,
     LESS_THAN_ENCODED,
-    NO_HARDLINES_AVAILABLE_MESSAGE,
     SUCCESS_MESSAGE
 } from './constants.js';
-import { ExecutionResult } from './types.js';
+import { ExecutionResult, ShellChunk } from './types.js';
+import {
+    OogCommandNotEchoedError,
+    OogExecutionError,
+    OogInitializationError,
+    OogNotInitializedError,
+    OogScriptFailureError,
+    OogSendError,
+    OogTimeoutError,
+    OogTransferError
+} from './errors.js';
 import { AnsiConverter, AnsiConverterOptions } from './terminal/ansi_converter.js';
-
-const sendCommand = async (command: string): Promise<boolean> => {
-    if (!native.sendKeystrokes(command + '\n')) return false;
-    await waitMs(50);
-    return true;
-}
+import { HtmlConverter, HtmlConverterOptions } from './terminal/html_converter.js';
+import { DiscordConverter, DiscordConverterOptions } from './terminal/discord_converter.js';
+import { MarkdownConverter, MarkdownConverterOptions } from './terminal/markdown_converter.js';
+import { ShellParser } from './terminal/parsing.js';
+import { InputDriver } from './drivers/types.js';
+import { NativeInputDriver } from './drivers/native_driver.js';
+import { ValueParser } from './valueParser.js';
+import { ShellHold, ShellLine, ShellReader } from './shellReader.js';
+import { HardlineState, HardlineStateMachine, HardlineStatus } from './hardline.js';
+import { Chat } from './chat.js';
+import { formatGC, parseGC } from './gc.js';
+import { makeUploadCommand, parseUploadOutcome, ScriptSync, ScriptSyncOptions, UploadOptions, UploadOutcome } from './scripts.js';
+import { CommandPriority, CommandQueue, PendingCommand } from './commandQueue.js';
+import { defaultTimingProfile, LatencyStats, TimingProfile, TimingTracker } from './timing.js';
+import { makeScriptCall, nameRegex, ScriptArguments } from './scriptArguments.js';
+import { UserTracker } from './users.js';
+import { ConsoleLogger, LogFields, Logger, LogLevel, withInputLogging } from './logger.js';
+
+/** How long to keep trying to get through the hardline activation. */
+const HARDLINE_ACTIVATION_TIMEOUT = 60000;
+const HARDLINE_EXIT_COMMAND = makeScriptCall('kernel.hardline', { dc: true });
 
 export type HmOogOptions = {
     shellPath: string,
     ansiOptions: Partial<AnsiConverterOptions>,
+    htmlOptions: Partial<HtmlConverterOptions>,
+    discordOptions: Partial<DiscordConverterOptions>,
+    markdownOptions: Partial<MarkdownConverterOptions>,
+    /** Where input is sent to. Defaults to the game, via hmoog-native. */
+    driver: InputDriver,
+    /** How many of the most recent shell lines to keep around for finding command output. */
+    maxBufferedLines: number,
+    /**
+     * Whether {@link HmOog.run} throws an {@link OogExecutionError} if a command times out, fails or can't be read,
+     * instead of returning null (or the failed result) and printing a warning.
+     */
+    throwOnFailure: boolean,
+    /** How long to wait between keystrokes and reading the shell. Missing values use {@link defaultTimingProfile}. */
+    timing: Partial<TimingProfile>,
+    /** Where warnings and other messages go. Defaults to the console. */
+    logger: Logger,
+    /** Whether to log every keystroke sent and every shell slice read, at the debug level. */
+    debug: boolean,
+};
+
+export type RunOptions = {
+    /** Milliseconds after which to give up, 0 to wait indefinitely. */
+    timeout: number,
+    /** Whether to retry the command if no result could be read. */
+    retry: boolean,
+    /** Where the command is placed in the queue. */
+    priority: CommandPriority,
+    /** Overrides {@link HmOogOptions.throwOnFailure} for this command. */
+    throwOnFailure: boolean,
+    /** Aborts the command, even if it's still waiting in the queue. */
+    signal?: AbortSignal,
+};
+
+/** Accepts the `run(command, timeout, retry)` form from before there were {@link RunOptions}. */
+const toRunOptions = (options: Partial<RunOptions> | number | undefined, retry: boolean | undefined): Partial<RunOptions> => {
+    if (typeof options === 'number' || (options === undefined && retry !== undefined)) {
+        return { timeout: options ?? 0, retry: retry ?? true };
+    }
+
+    if (options !== undefined && (typeof options !== 'object' || options === null)) {
+        throw new Error(`Expected the run options to be an object, got ${options === null ? 'null' : typeof options}!`);
+    }
+
+    return options ?? {};
+};
+
+export type AbortOptions = {
+    /** Aborts the operation, even if it's still waiting in the queue. */
+    signal?: AbortSignal,
 };
 
 export class HmOog {
     private readonly shellPath: string;
     private readonly fileWatcher: FileWatcher;
     private readonly ansiOptions: Partial<AnsiConverterOptions>;
-
-    private lastCommand?: string;
-    private isHardlineActive: boolean = false;
+    private readonly htmlOptions: Partial<HtmlConverterOptions>;
+    private readonly discordOptions: Partial<DiscordConverterOptions>;
+    private readonly markdownOptions: Partial<MarkdownConverterOptions>;
+    private readonly driver: InputDriver;
+    private readonly queue: CommandQueue = new CommandQueue();
+    private readonly shellReader: ShellReader;
+    private readonly throwOnFailure: boolean;
+    private readonly timing: TimingTracker;
+    private readonly logger: Logger;
+    private readonly debug: boolean;
+
+    /** Follows which user is logged in, emitting events when it changes. */
+    readonly users: UserTracker = new UserTracker();
+    /** Sends and receives chat messages. */
+    readonly chat: Chat = new Chat(this);
+
+    /** The command whose output is being waited for, and the lines read since it was first sent. */
+    private awaitedCommand?: { command: string, hold: ShellHold };
+    private isInitialized: boolean = false;
 
     constructor(options?: Partial<HmOogOptions>) {
         const defaultedOptions: HmOogOptions = {
-            shellPath: getShellPath(),
             ansiOptions: {},
+            htmlOptions: {},
+            discordOptions: {},
+            markdownOptions: {},
+            maxBufferedLines: 1000,
+            throwOnFailure: false,
+            timing: {},
+            debug: false,
             ...options,
+            shellPath: options?.shellPath ?? getShellPath(),
+            driver: options?.driver ?? new NativeInputDriver(),
+            logger: options?.logger ?? new ConsoleLogger(options?.debug ? LogLevel.DEBUG : LogLevel.INFO),
         };
 
         this.shellPath = defaultedOptions.shellPath;
         this.ansiOptions = defaultedOptions.ansiOptions;
+        this.htmlOptions = defaultedOptions.htmlOptions;
+        this.discordOptions = defaultedOptions.discordOptions;
+        this.markdownOptions = defaultedOptions.markdownOptions;
+        this.logger = defaultedOptions.logger;
+        this.debug = defaultedOptions.debug;
+        this.driver = this.debug
+            ? withInputLogging(defaultedOptions.driver, this.logger)
+            : defaultedOptions.driver;
+        this.throwOnFailure = defaultedOptions.throwOnFailure;
+        this.timing = new TimingTracker({ ...defaultTimingProfile, ...defaultedOptions.timing });
 
         this.fileWatcher = new FileWatcher(this.shellPath);
+        this.shellReader = new ShellReader(this.shellPath, this.fileWatcher, {
+            maxBufferedLines: defaultedOptions.maxBufferedLines,
+        });
+        this.shellReader.subscribe(chunk => this.users.feed(chunk.lines));
     }
 
-    async init() {
-        if (!native.init()) {
-            throw new Error('Failed to initialize hmoog-native!');
-        }
+    /**
+     * Follows the hardline status of the current user, emitting events when it changes or drops.
+     *
+     * Every user has their own, so listeners only hear about the user that was current when they subscribed.
+     * Use {@link UserTracker.getHardline} for a specific user.
+     */
+    get hardline(): HardlineStateMachine {
+        return this.users.getHardline();
+    }
 
-        native.sendMouseClick(100, 100, false);
-        native.sendEscape();
+    /** The user that's logged in, or null if HmOog hasn't seen a switch yet. */
+    get currentUser(): string | null {
+        return this.users.getCurrentUser();
+    }
 
-        await this.#flush();
+    async init(options?: AbortOptions) {
+        const signal = options?.signal;
+        return this.queue.enqueue('init', CommandPriority.HIGH,
+            () => this.#abortable(signal, () => this.#init(signal)), signal);
     }
 
-    async run(command: string, timeout: number = 0, retry: boolean = true): Promise<ExecutionResult | null> {
-        let data: string[] | null = null;
-        let didReallyTimeout = false;
+    /**
+     * Runs a command in the shell.
+     *
+     * Commands are queued, so concurrent calls never type into the shell at the same time.
+     * Aborting via {@link RunOptions.signal} presses escape and rejects with the signal's reason.
+     */
+    run(command: string, options?: Partial<RunOptions>): Promise<ExecutionResult | null>;
+    /**
+     * @deprecated Pass the timeout and retry as {@link RunOptions} instead, e.g. `run(command, { timeout })`.
+     */
+    run(command: string, timeout?: number, retry?: boolean): Promise<ExecutionResult | null>;
+    async run(command: string, options?: Partial<RunOptions> | number, retry?: boolean): Promise<ExecutionResult | null> {
+        this.#assertInitialized();
+
+        const defaultedOptions: RunOptions = {
+            timeout: 0,
+            retry: true,
+            priority: CommandPriority.NORMAL,
+            throwOnFailure: this.throwOnFailure,
+            ...toRunOptions(options, retry),
+        };
 
-        if (timeout) {
-            waitMs(timeout).then(() => didReallyTimeout = true);
-        }
+        const signal = defaultedOptions.signal;
+        return this.queue.enqueue(command, defaultedOptions.priority,
+            () => this.#abortable(signal, () => this.#run(command, defaultedOptions)), signal);
+    }
 
-        while (data === null) {
-            native.sendEscape();
-            await waitMs(500);
+    /**
+     * Calls a script, serializing the arguments into hackmud's argument syntax.
+     *
+     * ```ts
+     * await oog.call('chats.send', { channel: '0000', msg: userInput });
+     * await oog.call('user.loc_finder', { target: scriptor('user.target') });
+     * ```
+     *
+     * @param scriptName The full name of the script, like `user.script`
+     * @param args The arguments, or undefined to call the script without any
+     */
+    async call(scriptName: string, args?: ScriptArguments, options?: Partial<RunOptions>): Promise<ExecutionResult | null> {
+        return this.run(makeScriptCall(scriptName, args), options);
+    }
 
-            if (!await sendCommand(command)) {
-                throw new Error('Failed to send command via hmoog-native.');
-            }
+    /**
+     * Enters the hardline.
+     *
+     * If no hardline is available, the returned status contains the cooldown until one is.
+     */
+    async enterHardline(options?: AbortOptions): Promise<HardlineStatus> {
+        this.#assertInitialized();
 
-            await waitMs(500);
+        const signal = options?.signal;
+        return this.queue.enqueue('kernel.hardline', CommandPriority.HIGH,
+            () => this.#abortable(signal, () => this.#enterHardline(signal)), signal);
+    }
 
-            this.lastCommand = command;
-            data = await this.#flush(timeout);
-            this.lastCommand = undefined;
+    /**
+     * Alias for {@link exitHardline}.
+     */
+    async enterRecon(options?: AbortOptions): Promise<boolean> {
+        return this.exitHardline(options);
+    }
+
+    async exitHardline(options?: AbortOptions): Promise<boolean> {
+        this.#assertInitialized();
+
+        const signal = options?.signal;
+        return this.queue.enqueue(HARDLINE_EXIT_COMMAND, CommandPriority.HIGH,
+            () => this.#abortable(signal, () => this.#exitHardline(signal)), signal);
+    }
 
-            if (data) break;
+    /**
+     * @param user The user to check, defaults to the current one
+     */
+    isInHardline(user?: string) {
+        return this.users.getHardline(user).isActive();
+    }
 
-            if (didReallyTimeout) {
-                console.warn(`Execution of command timed out after ${timeout}ms.`);
-                return null;
+    /**
+     * @param user The user to check, defaults to the current one
+     */
+    getHardlineStatus(user?: string): HardlineStatus {
+        return this.users.getHardline(user).getStatus();
+    }
+
+    /**
+     * Switches to another user via `user <name>`.
+     * @returns Whether the shell confirms the switch
+     */
+    async switchUser(name: string, options?: AbortOptions): Promise<boolean> {
+        if (!nameRegex.test(name)) throw new Error(`Invalid user name: ${name}`);
+
+        await this.run(`user ${name}`, { throwOnFailure: false, signal: options?.signal });
+        return this.currentUser === name;
+    }
+
+    /**
+     * Switches to another user for the duration of the block, then switches back.
+     *
+     * The queue is held from switching to switching back, so only the block's own commands run as that user.
+     * Commands that other code queues in the meantime wait until it's done.
+     * If the previous user isn't known, there's nothing to switch back to.
+     *
+     * ```ts
+     * const balance = await oog.withUser('alt', () => oog.balance());
+     * ```
+     *
+     * @throws OogExecutionError if switching to the user failed, or switching back did after the block succeeded
+     */
+    async withUser<T>(name: string, block: () => Promise<T>, options?: AbortOptions): Promise<T> {
+        this.#assertInitialized();
+
+        return this.queue.exclusive(`user ${name}`, CommandPriority.NORMAL, async () => {
+            const previous = this.currentUser;
+            if (previous === name) return block();
+
+            if (!await this.switchUser(name, options)) {
+                throw new OogExecutionError(`Couldn't switch to user ${name}!`, `user ${name}`);
             }
 
-            if (!retry) {
-                console.warn('Couldn\'t get a result for some reason!');
-                native.sendEscape();
-                return null;
+            let result: T;
+            try {
+                result = await block();
+            } catch (error) {
+                // Still try to get back, but the block's error is the one worth hearing about.
+                if (previous !== null) await this.switchUser(previous).catch(() => false);
+                throw error;
+            }
+
+            if (previous !== null && !await this.switchUser(previous)) {
+                throw new OogExecutionError(`Couldn't switch back to user ${previous}!`, `user ${previous}`);
             }
-        }
 
-        return this.#postProcess(command, data);
+            return result;
+        }, options?.signal);
     }
 
-    async enterHardline(): Promise<number> {
-        await sendCommand('kernel.hardline');
-        await waitMs(50);
+    /**
+     * Gets the balance of the current user via `accts.balance`.
+     * @returns The balance in GC
+     */
+    async balance(): Promise<bigint> {
+        const result = await this.run('accts.balance');
+        if (!result) throw new OogExecutionError('Couldn\'t get the balance!');
+
+        try {
+            return parseGC(result.uncolored.raw);
+        } catch {
+            throw new OogExecutionError(`Unexpected balance output: ${result.uncolored.raw}`);
+        }
+    }
 
-        const lines = await this.#flush(3000);
-        if (lines) {
-            const result = this.#postProcess('kernel.hardline', lines);
-            const cooldown = this.#getHardlineCooldown(result);
-            console.log(cooldown);
-            if (cooldown < 0) return 0;
-            if (cooldown > 0) return cooldown;
+    /**
+     * Transfers GC to another user via `accts.xfer_gc_to`.
+     *
+     * @param to The user to transfer to
+     * @param amount The amount in GC
+     * @param memo An optional memo attached to the transfer
+     * @throws OogTransferError if the transfer failed
+     */
+    async transferGC(to: string, amount: bigint, memo?: string): Promise<ExecutionResult> {
+        const command = makeScriptCall('accts.xfer_gc_to', { to, amount: formatGC(amount), memo });
+
+        let result: ExecutionResult | null;
+        try {
+            result = await this.run(command, { throwOnFailure: false });
+        } catch (error) {
+            if (!(error instanceof OogExecutionError)) throw error;
+            throw new OogTransferError(error.message, command, error.result);
         }
 
-        await waitMs(10000);
+        if (!result) throw new OogTransferError('no result', command, null);
+        if (result.success !== true) throw new OogTransferError(result.uncolored.raw, command, result);
 
-        for (let i = 0; i < 12; i++) {
-            await sendCommand('0123456789');
-        }
+        return result;
+    }
+
+    /**
+     * Uploads a script from the current user's scripts folder via `#up`.
+     *
+     * ```ts
+     * const outcome = await oog.uploadScript('my_script', { visibility: 'public' });
+     * if (outcome.status === UploadStatus.SYNTAX_ERROR) console.log(outcome.message);
+     * ```
+     *
+     * @param name The name of the script, without the user
+     * @returns Whether the upload worked, and the character count or error message
+     */
+    async uploadScript(name: string, options?: Partial<UploadOptions>): Promise<UploadOutcome> {
+        const command = makeUploadCommand(name, {
+            visibility: 'private',
+            shift: false,
+            ...options,
+        });
+
+        const result = await this.run(command, { throwOnFailure: false });
+        if (!result) throw new OogExecutionError(`Couldn't upload ${name}!`, command);
 
-        await waitMs(15000);
+        return parseUploadOutcome(result);
+    }
 
-        // Ensure that if we didn't manage to send the flush beforehand, it doesn't
-        // sit in the shell still.
-        native.sendKeystrokes('\n');
+    /**
+     * Watches a local scripts folder and uploads every `.js` file in it whenever it changes.
+     * Results are reported as ANSI text, by default to the logger.
+     *
+     * @param directory The folder to watch, usually the game's scripts folder of the current user
+     * @returns The sync, which keeps running until closed
+     * @throws Error if the directory doesn't exist
+     */
+    syncScripts(directory: string, options?: Partial<ScriptSyncOptions>): ScriptSync {
+        this.#assertInitialized();
+        return new ScriptSync(this, directory, {
+            ansiOptions: this.ansiOptions,
+            report: text => this.logger.info(text),
+            ...options,
+        });
+    }
 
-        this.isHardlineActive = true;
+    /**
+     * Follows the shell, including output that wasn't caused by HmOog, like chat messages.
+     *
+     * ```ts
+     * for await (const chunk of oog.watch()) {
+     *     console.log(AnsiConverter.convert(chunk.nodes));
+     * }
+     * ```
+     *
+     * @returns An iterator over every chunk of lines written to shell.txt from now on
+     */
+    watch(): AsyncIterableIterator<ShellChunk> {
+        this.#assertInitialized();
+        return toAsyncIterator(listener => this.shellReader.subscribe(listener));
+    }
 
-        return 0;
+    /**
+     * Calls the listener with every chunk of lines written to shell.txt from now on.
+     * @returns A function that unsubscribes the listener
+     */
+    onShellOutput(listener: (chunk: ShellChunk) => void): () => void {
+        this.#assertInitialized();
+        return this.shellReader.subscribe(listener);
+    }
+
+    /** The number of commands waiting to run, not including the one that's currently running. */
+    getQueueDepth(): number {
+        return this.queue.getDepth();
+    }
+
+    /** The commands waiting to run, in the order they will run in. */
+    getPendingCommands(): PendingCommand[] {
+        return this.queue.getPending();
+    }
+
+    /** The command that's currently running, if any. */
+    getActiveCommand(): PendingCommand | null {
+        return this.queue.getActive();
     }
 
     /**
-     * Alias for {@link exitHardline}.
+     * Gets the measured latencies, and the timing currently in use.
+     * In adaptive mode (see {@link TimingProfile.adaptive}), the timing is tuned to the round trips.
+     */
+    getLatencyStats(): LatencyStats {
+        return this.timing.getStats();
+    }
+
+    /**
+     * Stops watching shell.txt, which otherwise keeps the process alive.
+     * Nothing is read from the shell anymore afterwards, so the instance can't be used again.
      */
-    async enterRecon(): Promise<boolean> {
-        return this.exitHardline();
+    close() {
+        this.fileWatcher.close();
     }
 
-    async exitHardline(): Promise<boolean> {
-        const exitCommand = 'kernel.hardline { dc: true }';
-        await sendCommand(exitCommand);
-        await waitMs(5000);
+    async #init(signal?: AbortSignal) {
+        if (!await this.driver.init()) {
+            throw new OogInitializationError('Failed to initialize the input driver!');
+        }
+
+        signal?.throwIfAborted();
+
+        this.driver.sendMouseClick(100, 100, false);
+        this.driver.sendEscape();
 
-        const data = await this.#flush();
-        const result = this.#postProcess(exitCommand, data!);
+        await this.#flush(0, signal);
 
-        const success = result.colored.raw.includes(HARDLINE_DISCONNECTED_MESSAGE);
-        if (success) {
-            this.isHardlineActive = false;
+        this.isInitialized = true;
+    }
+
+    async #run(command: string, { timeout, retry, throwOnFailure, signal }: RunOptions): Promise<ExecutionResult | null> {
+        let data: string[] | null = null;
+        const startedAt = Date.now();
+        const deadline = timeout ? startedAt + timeout : Infinity;
+
+        let attempt = 0;
+        const fields = (): LogFields => ({ command, attempt, elapsed: Date.now() - startedAt });
+
+        // Keeps the command's echo around, no matter how much output follows it.
+        await this.shellReader.sync();
+        const hold = this.shellReader.hold();
+
+        try {
+            while (data === null) {
+                // Once the game has seen the command, sending it again would run it twice.
+                if (this.#findEcho(command, hold.getLines()) === -1) {
+                    attempt++;
+                    if (attempt > 1) this.logger.debug('Retrying command', fields());
+
+                    this.driver.sendEscape();
+                    await waitMs(this.timing.getProfile().preCommandDelay, signal);
+
+                    await this.#sendCommand(command, signal);
+
+                    await waitMs(this.timing.getProfile().postCommandDelay, signal);
+                } else {
+                    this.logger.debug('Still waiting for the output of the command', fields());
+                }
+
+                this.awaitedCommand = { command, hold };
+                try {
+                    data = await this.#flush(timeout, signal);
+                } finally {
+                    this.awaitedCommand = undefined;
+                }
+
+                if (data) break;
+
+                if (Date.now() >= deadline) {
+                    const partialResult = this.#readPartialResult(command, hold.getLines());
+                    return this.#fail(new OogTimeoutError(command, timeout, partialResult), throwOnFailure, fields());
+                }
+
+                if (!retry) {
+                    this.driver.sendEscape();
+
+                    const partialResult = this.#readPartialResult(command, hold.getLines());
+                    const error = partialResult
+                        ? new OogExecutionError(`Couldn't get a result for ${command}.`, command, partialResult)
+                        : new OogCommandNotEchoedError(command);
+                    return this.#fail(error, throwOnFailure, fields());
+                }
+            }
+        } finally {
+            hold.release();
         }
 
-        return success;
+        this.timing.recordCommand(command, Date.now() - startedAt);
+
+        const result = this.#postProcess(command, data);
+        if (result.success === false && throwOnFailure) {
+            throw new OogScriptFailureError(command, result);
+        }
+
+        return result;
     }
 
-    isInHardline() {
-        return this.isHardlineActive;
+    async #enterHardline(signal?: AbortSignal): Promise<HardlineStatus> {
+        // Only what the game answers to this kernel.hardline is interesting, not earlier statuses.
+        let response: HardlineStatus | null = null;
+        const onChange = (status: HardlineStatus) => response = status;
+
+        this.hardline.on('change', onChange);
+        try {
+            await this.#sendCommand('kernel.hardline', signal);
+            await this.#flush(3000, signal);
+        } finally {
+            this.hardline.off('change', onChange);
+        }
+
+        const status = response as HardlineStatus | null;
+        switch (status?.state) {
+            case HardlineState.RECALIBRATING:
+            case HardlineState.NONE_AVAILABLE:
+            case HardlineState.ALREADY_ACTIVE:
+                return status;
+        }
+
+        // If we didn't catch the activation message, tentatively assume it's activating anyway.
+        const deadline = Date.now() + HARDLINE_ACTIVATION_TIMEOUT;
+        while (!this.hardline.isActive() && Date.now() < deadline) {
+            await this.#sendCommand('0123456789', signal);
+            await this.#flush(1000, signal);
+        }
+
+        // Ensure that if the hardline swallowed the flush, it doesn't sit in the shell still.
+        this.driver.sendEscape();
+
+        return this.hardline.getStatus();
     }
 
-    #getHardlineCooldown(result: ExecutionResult): number {
-        const lines = result.colored.lines;
-        if (lines.includes(ACTIVATING_HARDLINE_MESSAGE)) return 0;
+    async #exitHardline(signal?: AbortSignal): Promise<boolean> {
+        await this.#sendCommand(HARDLINE_EXIT_COMMAND, signal);
+        await waitMs(this.timing.getProfile().hardlineExitDelay, signal);
 
-        let cooldownMessage: string;
+        const data = await this.#flush(0, signal);
+        if (!data) {
+            const timeout = this.timing.getProfile().flushTimeout;
+            this.#fail(new OogTimeoutError(HARDLINE_EXIT_COMMAND, timeout, null), this.throwOnFailure,
+                { command: HARDLINE_EXIT_COMMAND });
+            return false;
+        }
+
+        const result = this.#postProcess(HARDLINE_EXIT_COMMAND, data);
+
+        return result.colored.raw.includes(HARDLINE_DISCONNECTED_MESSAGE);
+    }
+
+    async #sendCommand(command: string, signal?: AbortSignal) {
+        signal?.throwIfAborted();
 
-        const notAvailableIndex = lines.findLastIndex(line => line.includes(NO_HARDLINES_AVAILABLE_MESSAGE));
-        const recalibratingIndex = lines.findLastIndex(line => line.includes(HARDLINE_RECALIBRATING_MESSAGE));
-        const alreadyActiveIndex = lines.findLastIndex(line => line.includes(HARDLINE_ALREADY_ACTIVE_MESSAGE));
+        if (!this.driver.sendKeystrokes(command + '\n')) throw new OogSendError(command);
+        await waitMs(this.timing.getProfile().keystrokeDelay, signal);
+    }
 
-        if (alreadyActiveIndex !== -1) {
-            return -1;
-        } else if (notAvailableIndex !== -1) {
-            cooldownMessage = lines[notAvailableIndex]
-                .substring(NO_HARDLINES_AVAILABLE_MESSAGE.length);
-        } else if (recalibratingIndex !== -1) {
-            cooldownMessage = lines[recalibratingIndex]
-                .substring(HARDLINE_RECALIBRATING_MESSAGE.length);
-        } else {
-            // Tentatively going to assume that this is means it succeeded, but we didn't flush
-            return 0;
+    /**
+     * Runs the task, pressing escape if it gets aborted, so nothing half-typed is left in the shell.
+     */
+    async #abortable<T>(signal: AbortSignal | undefined, task: () => Promise<T>): Promise<T> {
+        try {
+            return await task();
+        } catch (error) {
+            if (signal?.aborted) this.driver.sendEscape();
+            throw error;
         }
+    }
 
-        const secondsString = cooldownMessage.substring(1).split(' ')[0].replace('s', '');
-        return (parseInt(secondsString) + 1) * 1000;
+    #assertInitialized() {
+        if (!this.isInitialized) throw new OogNotInitializedError();
+    }
+
+    /**
+     * Throws the error if throwing is enabled, otherwise just warns about it.
+     * @param fields Context for the warning
+     * @returns null, to be returned in place of a result
+     */
+    #fail(error: OogExecutionError, throwOnFailure: boolean, fields: LogFields): null {
+        if (throwOnFailure) throw error;
+
+        this.logger.warn(error.message, fields);
+        return null;
+    }
+
+    /**
+     * Finds where the command was echoed into the shell.
+     * @returns The index of the last echo, or -1 if there is none
+     */
+    #findEcho(command: string, lines: readonly ShellLine[]): number {
+        const enteredCommand = encodeAngledBrackets(command);
+        return lines.findLastIndex(line => line.plain === `>>${enteredCommand}`);
+    }
+
+    /**
+     * Gets whatever output of the command made it into the shell so far.
+     * @param lines The lines read since the command was sent
+     * @returns The partial result, or null if the command never showed up in the shell
+     */
+    #readPartialResult(command: string, lines: readonly ShellLine[]): ExecutionResult | null {
+        const lastCommandIndex = this.#findEcho(command, lines);
+        if (lastCommandIndex === -1) return null;
+
+        return this.#postProcess(command, lines.slice(lastCommandIndex).map(line => line.colored));
     }
 
     #postProcess(command: string, lines: string[]): ExecutionResult {
@@ -192,8 +647,9 @@ export class HmOog {
             success = false;
         }
 
+        const enteredCommand = encodeAngledBrackets(command);
         const lastCommandIndex = lines.findLastIndex(line =>
-            removeColors(line) === `>>${command}`);
+            removeColors(line) === `>>${enteredCommand}`);
 
         let commandLine = '';
         if (lastCommandIndex !== -1) {
@@ -207,10 +663,27 @@ export class HmOog {
             .replaceAll(GREATER_THAN_ENCODED, '>');
         const uncoloredLines = uncoloredText.split('\n');
 
-        const ansiCommand = AnsiConverter.convertFromShellText(commandLine, this.ansiOptions);
-        const ansiText = AnsiConverter.convertFromShellText(rawText, this.ansiOptions);
+        // Script output can contain anything, so one odd tag shouldn't make the whole command fail.
+        const commandNodes = ShellParser.parse(commandLine, { lenient: true });
+        const textNodes = ShellParser.parse(rawText, { lenient: true });
+
+        const ansiCommand = AnsiConverter.convert(commandNodes, this.ansiOptions);
+        const ansiText = AnsiConverter.convert(textNodes, this.ansiOptions);
         const ansiLines = ansiText.split('\n');
 
+        const unwrappedHtmlOptions = { ...this.htmlOptions, wrapInPre: false };
+        const htmlCommand = HtmlConverter.convert(commandNodes, unwrappedHtmlOptions);
+        const htmlText = HtmlConverter.convert(textNodes, this.htmlOptions);
+        const htmlLines = HtmlConverter.convert(textNodes, unwrappedHtmlOptions).split('\n');
+
+        const discordMessages = DiscordConverter.convert(textNodes, this.discordOptions);
+
+        const markdownCommand = MarkdownConverter.convert(commandNodes, this.markdownOptions);
+        const markdownText = MarkdownConverter.convert(textNodes, this.markdownOptions);
+        const markdownLines = markdownText.split('\n');
+
+        const parsed = ValueParser.tryParseStructured(uncoloredText) ?? uncoloredText;
+
         return {
             success: success,
             colored: {
@@ -228,54 +701,69 @@ export class HmOog {
                 raw: ansiText,
                 lines: ansiLines,
             },
+            html: {
+                command: htmlCommand,
+                raw: htmlText,
+                lines: htmlLines,
+            },
+            discord: discordMessages,
+            markdown: {
+                command: markdownCommand,
+                raw: markdownText,
+                lines: markdownLines,
+            },
+            parsed: parsed,
         };
     }
 
-    async #flush(timeout: number = 0): Promise<string[] | null> {
-        let didTimeout: boolean = false;
+    async #flush(timeout: number = 0, signal?: AbortSignal): Promise<string[] | null> {
         let didFlush: boolean = false;
 
-        this.fileWatcher.waitForChange().then(() => didFlush = true);
+        if (timeout <= 0) timeout = this.timing.getProfile().flushTimeout;
+        const sentAt = Date.now();
+        const deadline = sentAt + timeout;
 
-        if (timeout <= 0) timeout = 10000;
-        waitMs(timeout).then(() => didTimeout = true);
+        this.fileWatcher.waitForChange().then(() => {
+            // A change after the deadline belongs to something else, and would skew the round trip.
+            if (Date.now() <= deadline) this.timing.recordRoundTrip(Date.now() - sentAt);
+            didFlush = true;
+        });
 
-        await sendCommand('flush');
+        await this.#sendCommand('flush', signal);
 
-        while (!didTimeout && !didFlush) {
-            native.sendKeystrokes('\n');
-            await waitMs(50);
+        while (!didFlush && Date.now() < deadline) {
+            this.driver.sendKeystrokes('\n');
+            await waitMs(this.timing.getProfile().flushPollInterval, signal);
         }
 
-        if (didTimeout) return null;
+        if (!didFlush) return null;
 
         return await this.#readShell();
     }
 
     async #readShell(): Promise<string[] | null> {
-        const contents = await readFile(this.shellPath, { encoding: 'utf-8' });
-        const lines = contents.split('\n');
+        await this.shellReader.sync();
 
-        const lastHardlineDisconnectedIndex = lines.lastIndexOf(HARDLINE_DISCONNECTED_MESSAGE);
-        const lastHardlineActiveIndex = lines.lastIndexOf(HARDLINE_ACTIVE_MESSAGE);
+        if (!this.awaitedCommand) {
+            const allLines = this.shellReader.getLines().map(line => line.colored);
+            if (this.debug) this.logger.debug('Read shell slice', { lines: allLines });
 
-        if (lastHardlineDisconnectedIndex > lastHardlineActiveIndex) {
-            this.isHardlineActive = false;
+            return allLines;
         }
 
-        if (!this.lastCommand) return lines;
-
-        const enteredCommand = this.lastCommand
-            .replaceAll('<', LESS_THAN_ENCODED)
-            .replaceAll('>', GREATER_THAN_ENCODED);
+        const { command, hold } = this.awaitedCommand;
+        const lines = hold.getLines();
 
-        const lastCommandIndex = lines.findLastIndex(line =>
-            removeColors(line) === `>>${enteredCommand}`);
-        if (lastCommandIndex === -1) return null;
+        const lastCommandIndex = this.#findEcho(command, lines);
+        const lastFlushIndex = lines.findLastIndex(line => line.colored === FLUSH_MESSAGE);
+        if (lastCommandIndex === -1 || lastFlushIndex < lastCommandIndex) {
+            if (this.debug) this.logger.debug('Command output not in the shell yet', { command });
+            return null;
+        }
 
-        const lastFlushIndex = lines.lastIndexOf(FLUSH_MESSAGE);
-        if (lastFlushIndex < lastCommandIndex) return null;
+        const slice = lines.slice(lastCommandIndex, lastFlushIndex).map(line => line.colored);
+        if (this.debug) this.logger.debug('Read shell slice', { command, lines: slice });
 
-        return lines.slice(lastCommandIndex, lastFlushIndex);
+        return slice;
     }
 }
@@ -0,0 +1,119 @@
+import { EventEmitter } from 'node:events';
+import {
+    ACTIVATING_HARDLINE_MESSAGE,
+    HARDLINE_ACTIVE_MESSAGE,
+    HARDLINE_ALREADY_ACTIVE_MESSAGE,
+    HARDLINE_DISCONNECTED_MESSAGE,
+    HARDLINE_RECALIBRATING_MESSAGE,
+    NO_HARDLINES_AVAILABLE_MESSAGE
+} from './constants.js';
+
+export enum HardlineState {
+    /** `kernel.hardline` was run, and the hardline is being activated. */
+    ACTIVATING,
+    /** The hardline is active. */
+    ACTIVE,
+    /** The hardline is recalibrating, and can't be entered until the cooldown is over. */
+    RECALIBRATING,
+    /** No hardlines are available until the cooldown is over. */
+    NONE_AVAILABLE,
+    /** `kernel.hardline` was run while the hardline was already active. */
+    ALREADY_ACTIVE,
+    /** There's no active hardline. */
+    DISCONNECTED,
+}
+
+/** The status of the hardline, as far as HmOog can tell from the shell. */
+export type HardlineStatus =
+    | { state: HardlineState.ACTIVATING }
+    | { state: HardlineState.ACTIVE }
+    | {
+        state: HardlineState.RECALIBRATING | HardlineState.NONE_AVAILABLE,
+        /** Milliseconds until a hardline can be entered again. */
+        cooldown: number,
+    }
+    | { state: HardlineState.ALREADY_ACTIVE }
+    | { state: HardlineState.DISCONNECTED };
+
+export type HardlineEvents = {
+    /** The status changed. */
+    change: [ status: HardlineStatus, previous: HardlineStatus ],
+    /** An active (or activating) hardline was dropped. */
+    disconnected: [],
+};
+
+/**
+ * Follows the hardline status by watching the shell for hardline messages.
+ */
+export class HardlineStateMachine extends EventEmitter<HardlineEvents> {
+    private status: HardlineStatus = { state: HardlineState.DISCONNECTED };
+
+    getStatus(): HardlineStatus {
+        return this.status;
+    }
+
+    /** Whether a hardline is currently active. */
+    isActive(): boolean {
+        return this.status.state === HardlineState.ACTIVE
+            || this.status.state === HardlineState.ALREADY_ACTIVE;
+    }
+
+    /**
+     * Updates the status from new shell lines.
+     * @param lines The new lines, still colored
+     */
+    feed(lines: string[]) {
+        for (const line of lines) {
+            const status = parseHardlineStatus(line);
+            if (status) this.transition(status);
+        }
+    }
+
+    private transition(status: HardlineStatus) {
+        const previous = this.status;
+        this.status = status;
+
+        this.emit('change', status, previous);
+
+        const wasConnected = previous.state === HardlineState.ACTIVE
+            || previous.state === HardlineState.ALREADY_ACTIVE
+            || previous.state === HardlineState.ACTIVATING;
+        if (status.state === HardlineState.DISCONNECTED && wasConnected) {
+            this.emit('disconnected');
+        }
+    }
+}
+
+const parseHardlineStatus = (line: string): HardlineStatus | null => {
+    if (line.includes(ACTIVATING_HARDLINE_MESSAGE)) return { state: HardlineState.ACTIVATING };
+    if (line.includes(HARDLINE_ACTIVE_MESSAGE)) return { state: HardlineState.ACTIVE };
+    if (line.includes(HARDLINE_DISCONNECTED_MESSAGE)) return { state: HardlineState.DISCONNECTED };
+    if (line.includes(HARDLINE_ALREADY_ACTIVE_MESSAGE)) return { state: HardlineState.ALREADY_ACTIVE };
+
+    const recalibratingIndex = line.indexOf(HARDLINE_RECALIBRATING_MESSAGE);
+    if (recalibratingIndex !== -1) {
+        return {
+            state: HardlineState.RECALIBRATING,
+            cooldown: parseCooldown(line.substring(recalibratingIndex + HARDLINE_RECALIBRATING_MESSAGE.length)),
+        };
+    }
+
+    const notAvailableIndex = line.indexOf(NO_HARDLINES_AVAILABLE_MESSAGE);
+    if (notAvailableIndex !== -1) {
+        return {
+            state: HardlineState.NONE_AVAILABLE,
+            cooldown: parseCooldown(line.substring(notAvailableIndex + NO_HARDLINES_AVAILABLE_MESSAGE.length)),
+        };
+    }
+
+    return null;
+};
+
+/**
+ * Parses the cooldown following a hardline message, e.g. ` 42s remaining.`.
+ * @returns The cooldown in milliseconds, with a second of leeway
+ */
+const parseCooldown = (cooldownMessage: string): number => {
+    const secondsString = cooldownMessage.substring(1).split(' ')[0].replace('s', '');
+    return (parseInt(secondsString) + 1) * 1000;
+};
@@ -1,5 +1,64 @@
-export { HmOog } from './handling.js';
-export { OogInitializationError, OogNotInitializedError, OogExecutionError } from './errors.js';
-export { ExecutionResult, FlushReason } from './types.js';
+export { AbortOptions, HmOog, HmOogOptions, RunOptions } from './handling.js';
+export { HardlineEvents, HardlineState, HardlineStateMachine, HardlineStatus } from './hardline.js';
+export { Chat, ChatMessage, ChatMessageType } from './chat.js';
+export { CommandPriority, PendingCommand } from './commandQueue.js';
+export { Breacher, BreacherOptions, BreachResult, BreachStatus } from './breach/breacher.js';
+export { parseLockFeedback } from './breach/feedback.js';
+export {
+    colorWheel,
+    DataCheckSolver,
+    dataCheckAnswers,
+    defaultSolvers,
+    ezCommands,
+    ezPrimes,
+    l0cketKeys,
+    LockStage,
+    SequentialLockSolver
+} from './breach/solvers.js';
+export { LockFeedback, LockSolver, LockSolverFactory } from './breach/types.js';
+export { InputDriver } from './drivers/types.js';
+export { NativeInputDriver } from './drivers/native_driver.js';
+export { FakeHackmud, FakeHackmudOptions, FakeScriptHandler, FakeScriptResult } from './drivers/fake_hackmud.js';
+export {
+    OogInitializationError,
+    OogNotInitializedError,
+    OogExecutionError,
+    OogTimeoutError,
+    OogCommandNotEchoedError,
+    OogSendError,
+    OogScriptFailureError,
+    OogTransferError
+} from './errors.js';
+export { formatGC, parseGC } from './gc.js';
+export { ConsoleLogger, LogFields, Logger, LogLevel, withInputLogging } from './logger.js';
+export { makeScriptCall, ScriptArgument, ScriptArguments, scriptor, ScriptorRef, serializeArgument } from './scriptArguments.js';
+export { ScriptSync, ScriptSyncOptions, UploadOptions, UploadOutcome, UploadStatus } from './scripts.js';
+export { SessionEvent, SessionEventType } from './recording/types.js';
+export { SessionRecorder, SessionRecorderOptions } from './recording/recorder.js';
+export { ReplayDriver, ReplayDriverOptions } from './recording/replay.js';
+export { HmOogServer, HmOogServerOptions } from './server/server.js';
+export { UserEvents, UserTracker } from './users.js';
+export { defaultTimingProfile, LatencyStats, LatencySummary, TimingProfile } from './timing.js';
+export { ExecutionResult, FlushReason, ShellChunk } from './types.js';
+export { HackmudObject, HackmudValue, ValueParser } from './valueParser.js';
 export { waitMs } from './utils.js';
 export * from './constants.js';
+export { AnsiConverter, AnsiConverterOptions } from './terminal/ansi_converter.js';
+export { DiscordConverter, DiscordConverterOptions } from './terminal/discord_converter.js';
+export { HtmlColorMode, HtmlConverter, HtmlConverterOptions } from './terminal/html_converter.js';
+export { MarkdownConverter, MarkdownConverterOptions } from './terminal/markdown_converter.js';
+export { ColorCodeConverter } from './terminal/color_code_converter.js';
+export { ColorCodeBuilder, colorize, toColorLetter } from './terminal/color_codes.js';
+export {
+    ColorDepth,
+    findNearestColor,
+    findNearestHackmudColor,
+    hackmudColors,
+    PaletteColor,
+    Rgb,
+    vgaPalette,
+    xtermPalette
+} from './terminal/colors.js';
+export { ParseDiagnostic, ShellParser, ShellParserOptions } from './terminal/parsing.js';
+export { TextConverter } from './terminal/text_converter.js';
+export { ColorNode, Node, NodeType, NodeVisitor, SourceOffsets, TextNode } from './terminal/types.js';
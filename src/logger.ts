@@ -0,0 +1,89 @@
+import type { InputDriver } from './drivers/types.js';
+
+export enum LogLevel {
+    DEBUG,
+    INFO,
+    WARN,
+    ERROR,
+    /** Logs nothing at all. Only meant as a minimum level. */
+    SILENT,
+}
+
+/** Structured context for a log message. */
+export type LogFields = {
+    /** The command the message is about. */
+    command?: string,
+    /** Which attempt at running the command this is, starting at 1. */
+    attempt?: number,
+    /** Milliseconds since the command started running. */
+    elapsed?: number,
+    [field: string]: unknown,
+};
+
+/**
+ * Receives everything HmOog has to say. Compatible with most logging libraries,
+ * or at least easy to adapt to them.
+ */
+export type Logger = {
+    debug(message: string, fields?: LogFields): void,
+    info(message: string, fields?: LogFields): void,
+    warn(message: string, fields?: LogFields): void,
+    error(message: string, fields?: LogFields): void,
+};
+
+/**
+ * Logs to the console, the default logger.
+ */
+export class ConsoleLogger implements Logger {
+    private readonly level: LogLevel;
+    private readonly output: Console;
+
+    /**
+     * @param level The minimum level of messages to log
+     * @param output The console to log to, e.g. `new Console(process.stderr)` to keep stdout clean
+     */
+    constructor(level: LogLevel = LogLevel.INFO, output: Console = console) {
+        this.level = level;
+        this.output = output;
+    }
+
+    debug(message: string, fields?: LogFields) {
+        if (this.level <= LogLevel.DEBUG) this.output.debug(...withFields(message, fields));
+    }
+
+    info(message: string, fields?: LogFields) {
+        if (this.level <= LogLevel.INFO) this.output.info(...withFields(message, fields));
+    }
+
+    warn(message: string, fields?: LogFields) {
+        if (this.level <= LogLevel.WARN) this.output.warn(...withFields(message, fields));
+    }
+
+    error(message: string, fields?: LogFields) {
+        if (this.level <= LogLevel.ERROR) this.output.error(...withFields(message, fields));
+    }
+}
+
+const withFields = (message: string, fields?: LogFields): unknown[] =>
+    fields && Object.keys(fields).length > 0 ? [ message, fields ] : [ message ];
+
+/**
+ * Wraps a driver, logging everything sent through it at the debug level.
+ * @param driver The driver actually sending the input
+ * @param logger The logger to log to
+ */
+export const withInputLogging = (driver: InputDriver, logger: Logger): InputDriver => ({
+    init: () => driver.init(),
+    sendKeystrokes: (keys: string) => {
+        logger.debug('Sending keystrokes', { keys });
+        return driver.sendKeystrokes(keys);
+    },
+    sendEscape: () => {
+        logger.debug('Sending escape');
+        driver.sendEscape();
+    },
+    sendMouseClick: (x: number, y: number, rightClick: boolean) => {
+        logger.debug('Sending mouse click', { x, y, rightClick });
+        driver.sendMouseClick(x, y, rightClick);
+    },
+});
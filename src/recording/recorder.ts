@@ -0,0 +1,99 @@
+import { appendFileSync, existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { InputDriver } from '../drivers/types.js';
+import FileWatcher from '../fileWatcher.js';
+import { ShellReader } from '../shellReader.js';
+import { makeWordReplacer, SessionEvent, SessionEventType, userPlaceholder } from './types.js';
+
+export type SessionRecorderOptions = {
+    /**
+     * User names to replace with placeholders (`user_1`, `user_2`, ...) in everything that's recorded.
+     * Replaying the session then needs {@link ReplayDriverOptions.users} to put names back in.
+     */
+    redactUsers: string[],
+};
+
+/**
+ * Records a session into a JSONL file: every input sent through the wrapped driver,
+ * and everything the game writes to shell.txt, with timings.
+ *
+ * Replay the recording with {@link ReplayDriver}.
+ *
+ * ```ts
+ * const recorder = new SessionRecorder('session.jsonl', shellPath);
+ * const oog = new HmOog({ shellPath, driver: recorder.wrap(new NativeInputDriver()) });
+ * recorder.start();
+ * ```
+ */
+export class SessionRecorder {
+    private readonly sessionPath: string;
+    private readonly shellPath: string;
+    private readonly redact: (text: string) => string;
+
+    private startTime: number = 0;
+    private fileWatcher?: FileWatcher;
+
+    constructor(sessionPath: string, shellPath: string, options?: Partial<SessionRecorderOptions>) {
+        this.sessionPath = sessionPath;
+        this.shellPath = shellPath;
+        this.redact = makeWordReplacer((options?.redactUsers ?? []).map((user, i) => [ user, userPlaceholder(i) ]));
+    }
+
+    /** Starts recording, overwriting the session file. */
+    start() {
+        this.startTime = performance.now();
+        writeFileSync(this.sessionPath, '');
+
+        const snapshot = existsSync(this.shellPath) ? readFileSync(this.shellPath, { encoding: 'utf-8' }) : '';
+        this.record({ type: SessionEventType.SHELL_SNAPSHOT, time: 0, text: this.redact(snapshot) });
+
+        this.fileWatcher = new FileWatcher(this.shellPath);
+        const shellReader = new ShellReader(this.shellPath, this.fileWatcher);
+
+        shellReader.subscribe(chunk => {
+            if (chunk.afterTruncation) {
+                this.record({ type: SessionEventType.SHELL_TRUNCATE, time: this.now() });
+            }
+
+            const text = chunk.lines.map(line => line + '\n').join('');
+            this.record({ type: SessionEventType.SHELL_APPEND, time: this.now(), text: this.redact(text) });
+        });
+    }
+
+    /** Stops recording shell.txt. Input sent through wrapped drivers isn't recorded anymore either. */
+    stop() {
+        this.fileWatcher?.close();
+        this.fileWatcher = undefined;
+    }
+
+    /**
+     * Wraps a driver, recording everything sent through it while recording.
+     * @param driver The driver actually sending the input
+     */
+    wrap(driver: InputDriver): InputDriver {
+        return {
+            init: () => driver.init(),
+            sendKeystrokes: (keys: string) => {
+                this.record({ type: SessionEventType.KEYSTROKES, time: this.now(), keys: this.redact(keys) });
+                return driver.sendKeystrokes(keys);
+            },
+            sendEscape: () => {
+                this.record({ type: SessionEventType.ESCAPE, time: this.now() });
+                driver.sendEscape();
+            },
+            sendMouseClick: (x: number, y: number, rightClick: boolean) => {
+                this.record({ type: SessionEventType.MOUSE_CLICK, time: this.now(), x, y, rightClick });
+                driver.sendMouseClick(x, y, rightClick);
+            },
+        };
+    }
+
+    private record(event: SessionEvent) {
+        if (!this.fileWatcher && event.type !== SessionEventType.SHELL_SNAPSHOT) return;
+
+        appendFileSync(this.sessionPath, JSON.stringify(event) + '\n');
+    }
+
+    private now(): number {
+        return Math.round(performance.now() - this.startTime);
+    }
+}
@@ -0,0 +1,128 @@
+import { appendFileSync, writeFileSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { InputDriver } from '../drivers/types.js';
+import { isInputEvent, makeWordReplacer, SessionEvent, SessionEventType, userPlaceholder } from './types.js';
+
+export type ReplayDriverOptions = {
+    /** How fast recorded delays are replayed: 1 for real time, 0 to write shell changes as soon as possible. */
+    timeScale: number,
+    /**
+     * Names to put in for the placeholders of users redacted while recording, in the same order as
+     * {@link SessionRecorderOptions.redactUsers}. Input using these names matches recorded input using
+     * the placeholders, and the replayed shell shows these names instead of the placeholders.
+     * Without them, input has to use the placeholders themselves, e.g. `user user_1`.
+     */
+    users: string[],
+};
+
+/**
+ * Replays a session recorded by {@link SessionRecorder}, without the game running.
+ *
+ * Whenever the input sent to the driver matches the next recorded input, the shell changes
+ * that followed it in the recording are written to shell.txt. Input that doesn't match,
+ * like additional presses of enter while waiting for a flush, is ignored.
+ */
+export class ReplayDriver implements InputDriver {
+    private readonly events: SessionEvent[];
+    private readonly shellPath: string;
+    private readonly timeScale: number;
+    private readonly toPlaceholders: (text: string) => string;
+    private readonly fromPlaceholders: (text: string) => string;
+
+    private cursor: number = 0;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(events: SessionEvent[], shellPath: string, options?: Partial<ReplayDriverOptions>) {
+        this.events = events;
+        this.shellPath = shellPath;
+        this.timeScale = options?.timeScale ?? 0;
+
+        const users = options?.users ?? [];
+        this.toPlaceholders = makeWordReplacer(users.map((user, i) => [ user, userPlaceholder(i) ]));
+        this.fromPlaceholders = makeWordReplacer(users.map((user, i) => [ userPlaceholder(i), user ]));
+
+        // Restore shell.txt to how it was when recording started. This needs to happen right away,
+        // since HmOog starts reading from the end of the file as soon as it's constructed.
+        let snapshot = '';
+        if (this.events[0]?.type === SessionEventType.SHELL_SNAPSHOT) {
+            snapshot = this.events[0].text;
+            this.cursor = 1;
+        }
+
+        writeFileSync(this.shellPath, this.fromPlaceholders(snapshot));
+    }
+
+    /**
+     * Loads a recorded session file.
+     * @param sessionPath The JSONL file written by {@link SessionRecorder}
+     * @param shellPath Where to write the replayed shell.txt
+     */
+    static async fromFile(sessionPath: string, shellPath: string, options?: Partial<ReplayDriverOptions>): Promise<ReplayDriver> {
+        const contents = await readFile(sessionPath, { encoding: 'utf-8' });
+        const events: SessionEvent[] = contents.split('\n')
+            .filter(line => line.trim() !== '')
+            .map(line => JSON.parse(line));
+
+        return new ReplayDriver(events, shellPath, options);
+    }
+
+    async init(): Promise<boolean> {
+        return true;
+    }
+
+    sendKeystrokes(keys: string): boolean {
+        this.receive(event => event.type === SessionEventType.KEYSTROKES && event.keys === this.toPlaceholders(keys));
+        return true;
+    }
+
+    sendEscape(): void {
+        this.receive(event => event.type === SessionEventType.ESCAPE);
+    }
+
+    sendMouseClick(_x: number, _y: number, _rightClick: boolean): void {
+        this.receive(event => event.type === SessionEventType.MOUSE_CLICK);
+    }
+
+    /** Whether every recorded event was replayed. */
+    isFinished(): boolean {
+        return this.cursor >= this.events.length;
+    }
+
+    /** Resolves once all shell changes triggered so far have been written. */
+    async settle(): Promise<void> {
+        await this.writing;
+    }
+
+    private receive(matches: (event: SessionEvent) => boolean) {
+        const event = this.events[this.cursor];
+        if (!event || !matches(event)) return;
+
+        this.cursor++;
+
+        // Write everything the game did in response, up until the next input.
+        let previousTime = event.time;
+        while (this.cursor < this.events.length && !isInputEvent(this.events[this.cursor])) {
+            const shellEvent = this.events[this.cursor++];
+            const delay = (shellEvent.time - previousTime) * this.timeScale;
+            previousTime = shellEvent.time;
+
+            this.writing = this.writing
+                .then(() => new Promise(resolve => setTimeout(resolve, delay)))
+                .then(() => this.write(shellEvent));
+        }
+    }
+
+    private write(event: SessionEvent) {
+        switch (event.type) {
+            case SessionEventType.SHELL_APPEND:
+                appendFileSync(this.shellPath, this.fromPlaceholders(event.text));
+                break;
+            case SessionEventType.SHELL_TRUNCATE:
+            case SessionEventType.SHELL_SNAPSHOT: {
+                const text = event.type === SessionEventType.SHELL_SNAPSHOT ? this.fromPlaceholders(event.text) : '';
+                writeFileSync(this.shellPath, text);
+                break;
+            }
+        }
+    }
+}
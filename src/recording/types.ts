@@ -0,0 +1,42 @@
+export enum SessionEventType {
+    /** Keystrokes were sent to the game. */
+    KEYSTROKES = 'keystrokes',
+    /** Escape was pressed. */
+    ESCAPE = 'escape',
+    /** The game window was clicked. */
+    MOUSE_CLICK = 'mouseClick',
+    /** The contents of shell.txt when recording started. */
+    SHELL_SNAPSHOT = 'shellSnapshot',
+    /** Lines were appended to shell.txt. */
+    SHELL_APPEND = 'shellAppend',
+    /** The game cleared shell.txt. */
+    SHELL_TRUNCATE = 'shellTruncate',
+}
+
+/** An event of a recorded session. `time` is in milliseconds since recording started. */
+export type SessionEvent =
+    | { type: SessionEventType.KEYSTROKES, time: number, keys: string }
+    | { type: SessionEventType.ESCAPE, time: number }
+    | { type: SessionEventType.MOUSE_CLICK, time: number, x: number, y: number, rightClick: boolean }
+    | { type: SessionEventType.SHELL_SNAPSHOT, time: number, text: string }
+    | { type: SessionEventType.SHELL_APPEND, time: number, text: string }
+    | { type: SessionEventType.SHELL_TRUNCATE, time: number };
+
+/** The placeholder for the user at the index of {@link SessionRecorderOptions.redactUsers}. */
+export const userPlaceholder = (index: number): string => `user_${index + 1}`;
+
+/**
+ * Makes a function replacing whole words in a text, like user names with their placeholders.
+ * @param replacements Pairs of words and what to replace them with
+ */
+export const makeWordReplacer = (replacements: [ string, string ][]): (text: string) => string => {
+    const regexes = replacements
+        .map(([ word, replacement ]) => [ new RegExp(`\\b${word}\\b`, 'g'), replacement ] as const);
+    return text => regexes.reduce((result, [ regex, replacement ]) => result.replaceAll(regex, replacement), text);
+};
+
+/** Whether the event is input sent to the game, as opposed to something the game did. */
+export const isInputEvent = (event: SessionEvent): boolean =>
+    event.type === SessionEventType.KEYSTROKES
+    || event.type === SessionEventType.ESCAPE
+    || event.type === SessionEventType.MOUSE_CLICK;
@@ -0,0 +1,100 @@
+
+/** A user name, or the name of a script without its user. */
+export const nameSegment = '[a-z_][a-z0-9_]*';
+/** Matches a whole user name, or the name of a script without its user. */
+export const nameRegex = new RegExp(`^${nameSegment}$`);
+const scriptNameRegex = new RegExp(`^${nameSegment}\\.${nameSegment}$`);
+const identifierRegex = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * A scriptor, i.e. a reference to a script passed as an argument, like `{ target: #s.user.script }`.
+ */
+export class ScriptorRef {
+    /** The full name of the script, like `user.script`. */
+    readonly name: string;
+
+    constructor(name: string) {
+        assertScriptName(name);
+        this.name = name;
+    }
+}
+
+/**
+ * Shorthand for {@link ScriptorRef}.
+ * @param name The full name of the script, like `user.script`
+ */
+export const scriptor = (name: string): ScriptorRef => new ScriptorRef(name);
+
+/** A value that can be passed to a script. Object properties that are undefined are left out. */
+export type ScriptArgument =
+    | string
+    | number
+    | boolean
+    | null
+    | ScriptorRef
+    | ScriptArgument[]
+    | ScriptArguments;
+export type ScriptArguments = { [key: string]: ScriptArgument | undefined };
+
+/**
+ * Checks that a script name is a full name like `user.script`.
+ * @throws Error if it isn't
+ */
+export const assertScriptName = (name: string) => {
+    if (!scriptNameRegex.test(name)) throw new Error(`Invalid script name: ${name}`);
+};
+
+/**
+ * Serializes a value into hackmud's argument syntax, i.e. JSON with unquoted keys and scriptors.
+ *
+ * Strings are passed as they are, including `<` and `>`. The shell echoes those as `È` and `É`,
+ * which HmOog accounts for when looking for the command in the shell.
+ */
+export const serializeArgument = (value: ScriptArgument): string => {
+    if (value === null) return 'null';
+    if (value instanceof ScriptorRef) return `#s.${value.name}`;
+    if (Array.isArray(value)) return `[${value.map(serializeArgument).join(', ')}]`;
+
+    switch (typeof value) {
+        case 'string':
+            return JSON.stringify(value);
+        case 'number':
+            if (!Number.isFinite(value)) throw new Error(`Can't pass ${value} to a script!`);
+            return String(value);
+        case 'boolean':
+            return String(value);
+        case 'object':
+            return serializeObject(value);
+    }
+
+    throw new Error(`Can't pass a ${typeof value} to a script!`);
+};
+
+/**
+ * Builds the command that calls a script.
+ *
+ * ```ts
+ * makeScriptCall('kernel.hardline', { dc: true }); // 'kernel.hardline { dc: true }'
+ * ```
+ *
+ * @param scriptName The full name of the script, like `user.script`
+ * @param args The arguments, or undefined to call the script without any
+ */
+export const makeScriptCall = (scriptName: string, args?: ScriptArguments): string => {
+    assertScriptName(scriptName);
+
+    if (args === undefined) return scriptName;
+    return `${scriptName} ${serializeObject(args)}`;
+};
+
+const serializeObject = (value: ScriptArguments): string => {
+    const entries = Object.entries(value)
+        .filter(([ , entry ]) => entry !== undefined)
+        .map(([ key, entry ]) => {
+            const serializedKey = identifierRegex.test(key) ? key : JSON.stringify(key);
+            return `${serializedKey}: ${serializeArgument(entry!)}`;
+        });
+
+    if (entries.length === 0) return '{}';
+    return `{ ${entries.join(', ')} }`;
+};
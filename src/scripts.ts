@@ -0,0 +1,175 @@
+import { statSync } from 'node:fs';
+import { basename, extname } from 'node:path';
+import type { HmOog } from './handling.js';
+import FileWatcher from './fileWatcher.js';
+import { ExecutionResult } from './types.js';
+import { AnsiConverter, AnsiConverterOptions } from './terminal/ansi_converter.js';
+import { ShellParser } from './terminal/parsing.js';
+import { encodeAngledBrackets } from './utils.js';
+import { nameRegex } from './scriptArguments.js';
+
+export enum UploadStatus {
+    /** The script was uploaded. */
+    SUCCESS,
+    /** The script has a syntax error and wasn't uploaded. */
+    SYNTAX_ERROR,
+    /** The upload failed for some other reason, e.g. the script doesn't exist locally. */
+    FAILURE,
+}
+
+/** The outcome of {@link HmOog.uploadScript}. */
+export type UploadOutcome =
+    | {
+        status: UploadStatus.SUCCESS,
+        /** The character count of the uploaded script, if the game reported it. */
+        characters?: number,
+        result: ExecutionResult,
+    }
+    | {
+        status: UploadStatus.SYNTAX_ERROR | UploadStatus.FAILURE,
+        /** The error message printed by the game. */
+        message: string,
+        result: ExecutionResult,
+    };
+
+export type UploadOptions = {
+    visibility: 'public' | 'private',
+    /** Whether to also shift the script to the new version. */
+    shift: boolean,
+};
+
+export type ScriptSyncOptions = UploadOptions & {
+    /** Receives every upload report, already rendered as ANSI. */
+    report: (text: string) => void,
+    ansiOptions: Partial<AnsiConverterOptions>,
+    /** Milliseconds to wait for more changes to a file before uploading it. */
+    debounce: number,
+};
+
+const syntaxErrorRegex = /syntax\s*error/i;
+const characterCountRegex = /(\d+)\s*(?:\/\s*\d+\s*)?char/i;
+
+/**
+ * Builds the `#up` command for uploading a script.
+ * @param name The name of the script, without the user
+ */
+export const makeUploadCommand = (name: string, options: UploadOptions): string => {
+    if (!nameRegex.test(name)) throw new Error(`Invalid script name: ${name}`);
+
+    let command = `#up ${name}`;
+    if (options.visibility === 'public') command += ' public';
+    if (options.shift) command += ' shift';
+
+    return command;
+};
+
+/**
+ * Parses what the game printed after an `#up` into an {@link UploadOutcome}.
+ */
+export const parseUploadOutcome = (result: ExecutionResult): UploadOutcome => {
+    const lines = result.uncolored.lines.filter(line => line.trim() !== '');
+
+    const syntaxErrorLine = lines.find(line => syntaxErrorRegex.test(line));
+    if (syntaxErrorLine) {
+        return { status: UploadStatus.SYNTAX_ERROR, message: syntaxErrorLine.trim(), result };
+    }
+
+    const characterCount = characterCountRegex.exec(result.uncolored.raw);
+    if (result.success === false || !characterCount) {
+        const message = lines.filter(line => line !== 'Failure').join('\n');
+        return { status: UploadStatus.FAILURE, message, result };
+    }
+
+    return { status: UploadStatus.SUCCESS, characters: parseInt(characterCount[1]), result };
+};
+
+/**
+ * Watches a local scripts folder, uploading every `.js` file that changes.
+ *
+ * `#up` uploads from the game's scripts folder of the current user,
+ * so this should be that folder, or one synced to it.
+ */
+export class ScriptSync {
+    private readonly oog: Pick<HmOog, 'uploadScript'>;
+    private readonly options: ScriptSyncOptions;
+    private readonly fileWatcher: FileWatcher;
+    private readonly timers = new Map<string, NodeJS.Timeout>();
+
+    /**
+     * @throws Error if the directory doesn't exist
+     */
+    constructor(
+        oog: Pick<HmOog, 'uploadScript'>,
+        directory: string,
+        options: Partial<ScriptSyncOptions> & Pick<ScriptSyncOptions, 'report'>,
+    ) {
+        // Watching a missing directory only fails later, where nobody can catch it.
+        if (!statSync(directory, { throwIfNoEntry: false })?.isDirectory()) {
+            throw new Error(`Not a directory: ${directory}`);
+        }
+
+        this.oog = oog;
+        this.options = {
+            visibility: 'private',
+            shift: false,
+            ansiOptions: {},
+            debounce: 200,
+            ...options,
+        };
+
+        this.fileWatcher = new FileWatcher(directory, { includeRenames: true });
+        this.fileWatcher.onChange(fileName => {
+            if (fileName && extname(fileName) === '.js') this.schedule(basename(fileName, '.js'));
+        });
+    }
+
+    /** Stops watching. Uploads that already started still finish. */
+    close() {
+        this.fileWatcher.close();
+
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+
+        this.timers.clear();
+    }
+
+    private schedule(name: string) {
+        if (!nameRegex.test(name)) return;
+
+        clearTimeout(this.timers.get(name));
+        this.timers.set(name, setTimeout(() => {
+            this.timers.delete(name);
+            this.upload(name).catch(() => {});
+        }, this.options.debounce));
+    }
+
+    private async upload(name: string) {
+        try {
+            const outcome = await this.oog.uploadScript(name, this.options);
+            this.report(describeOutcome(name, outcome));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.report(`<color=#FF0000FF>✗</color> ${name}: ${encodeAngledBrackets(message)}`);
+        }
+    }
+
+    private report(text: string) {
+        // Error messages can contain just about anything, so a stray tag shouldn't stop the report.
+        const nodes = ShellParser.parse(text, { lenient: true });
+        this.options.report(AnsiConverter.convert(nodes, this.options.ansiOptions));
+    }
+}
+
+const describeOutcome = (name: string, outcome: UploadOutcome): string => {
+    switch (outcome.status) {
+        case UploadStatus.SUCCESS: {
+            const characters = outcome.characters !== undefined ? ` (${outcome.characters} chars)` : '';
+            return `<color=#1EFF00FF>✓</color> ${name}${characters}`;
+        }
+        case UploadStatus.SYNTAX_ERROR:
+            return `<color=#FF0000FF>✗</color> ${name}: <color=#FF8000FF>${encodeAngledBrackets(outcome.message)}</color>`;
+        case UploadStatus.FAILURE:
+            return `<color=#FF0000FF>✗</color> ${name}: ${encodeAngledBrackets(outcome.message)}`;
+    }
+};
@@ -0,0 +1,224 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Duplex } from 'node:stream';
+import { timingSafeEqual } from 'node:crypto';
+import { HmOog } from '../handling.js';
+import { OogExecutionError, OogNotInitializedError, OogScriptFailureError, OogTimeoutError } from '../errors.js';
+import { WebSocketConnection } from './websocket.js';
+
+export type HmOogServerOptions = {
+    /** The shared secret clients need to send as `Authorization: Bearer <token>`, or `?token=` for the stream. */
+    token: string,
+    /** The port to listen on, 0 for a random one. */
+    port: number,
+    /** The host to listen on. Only change this if you really know what you're doing. */
+    host: string,
+    /** The maximum size of request bodies, in bytes. */
+    maxBodySize: number,
+};
+
+class HttpError extends Error {
+    readonly status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+    }
+}
+
+/**
+ * Exposes a single {@link HmOog} instance over HTTP and WebSocket on localhost,
+ * so several tools can drive the same game client.
+ *
+ * - `POST /run` with `{ "command": "...", "timeout": 1000 }` returns `{ "result": ExecutionResult }`
+ * - `POST /hardline/enter` returns `{ "status": HardlineStatus }`
+ * - `POST /hardline/exit` returns `{ "success": boolean }`
+ * - `GET /status` returns the current user, their hardline status and the command queue
+ * - `GET /stream` upgrades to a WebSocket streaming every new shell chunk
+ *
+ * All commands go through the instance's command queue, so they're serialized onto the one game session.
+ */
+export class HmOogServer {
+    private readonly oog: HmOog;
+    private readonly options: HmOogServerOptions;
+    private readonly server: Server;
+    private readonly connections = new Set<WebSocketConnection>();
+
+    constructor(oog: HmOog, options: Partial<HmOogServerOptions> & Pick<HmOogServerOptions, 'token'>) {
+        if (!options.token) throw new Error('The server needs a token!');
+
+        this.oog = oog;
+        this.options = {
+            port: 4517,
+            host: '127.0.0.1',
+            maxBodySize: 1024 * 1024,
+            ...options,
+        };
+
+        this.server = createServer((request, response) => {
+            this.handleRequest(request, response).catch(error => this.sendError(response, error));
+        });
+        this.server.on('upgrade', (request, socket, head) => {
+            // An exception here would take down the whole process, so the worst a client gets is a closed socket.
+            try {
+                this.handleUpgrade(request, socket, head);
+            } catch {
+                socket.destroy();
+            }
+        });
+    }
+
+    /**
+     * Starts listening.
+     * @returns The port the server is listening on
+     */
+    listen(): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(this.options.port, this.options.host, () => {
+                this.server.off('error', reject);
+                resolve((this.server.address() as AddressInfo).port);
+            });
+        });
+    }
+
+    /** Stops listening and closes all streams. */
+    close(): Promise<void> {
+        for (const connection of this.connections) {
+            connection.close();
+        }
+
+        return new Promise((resolve, reject) => {
+            this.server.close(error => error ? reject(error) : resolve());
+        });
+    }
+
+    private async handleRequest(request: IncomingMessage, response: ServerResponse) {
+        const url = new URL(request.url ?? '/', 'http://localhost');
+        if (!this.isAuthorized(request, url)) throw new HttpError(401, 'Unauthorized');
+
+        const route = `${request.method} ${url.pathname}`;
+        switch (route) {
+            case 'GET /status':
+                return this.sendJson(response, 200, {
+                    user: this.oog.currentUser,
+                    inHardline: this.oog.isInHardline(),
+                    hardline: this.oog.getHardlineStatus(),
+                    queueDepth: this.oog.getQueueDepth(),
+                    activeCommand: this.oog.getActiveCommand(),
+                    pendingCommands: this.oog.getPendingCommands(),
+                });
+            case 'POST /run': {
+                const body = await this.readJson(request);
+                if (typeof body.command !== 'string') throw new HttpError(400, 'Expected a command!');
+
+                const timeout = typeof body.timeout === 'number' ? body.timeout : 0;
+                try {
+                    const result = await this.oog.run(body.command, { timeout, throwOnFailure: true });
+                    return this.sendJson(response, 200, { result });
+                } catch (error) {
+                    // The script reporting Failure is a perfectly fine result as far as HTTP is concerned.
+                    if (!(error instanceof OogScriptFailureError)) throw error;
+                    return this.sendJson(response, 200, { result: error.result });
+                }
+            }
+            case 'POST /hardline/enter':
+                return this.sendJson(response, 200, { status: await this.oog.enterHardline() });
+            case 'POST /hardline/exit':
+                return this.sendJson(response, 200, { success: await this.oog.exitHardline() });
+            default:
+                throw new HttpError(404, `Not found: ${route}`);
+        }
+    }
+
+    private handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer) {
+        const url = new URL(request.url ?? '/', 'http://localhost');
+        if (url.pathname !== '/stream' || !this.isAuthorized(request, url)) {
+            socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+            return;
+        }
+
+        // Subscribe before the handshake, so there's still a chance to say no.
+        let stream: WebSocketConnection | null = null;
+        let unsubscribe: () => void;
+        try {
+            unsubscribe = this.oog.onShellOutput(chunk => {
+                stream?.send(JSON.stringify({ reason: chunk.reason, lines: chunk.lines }));
+            });
+        } catch (error) {
+            if (!(error instanceof OogNotInitializedError)) throw error;
+
+            socket.end('HTTP/1.1 503 Service Unavailable\r\n\r\n');
+            return;
+        }
+
+        const connection = WebSocketConnection.accept(request, socket, head);
+        if (!connection) {
+            unsubscribe();
+            socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+            return;
+        }
+
+        this.connections.add(connection);
+        stream = connection;
+
+        connection.onClose(() => {
+            unsubscribe();
+            this.connections.delete(connection);
+        });
+    }
+
+    private isAuthorized(request: IncomingMessage, url: URL): boolean {
+        const header = request.headers.authorization;
+        const token = header?.startsWith('Bearer ')
+            ? header.substring('Bearer '.length)
+            : url.searchParams.get('token');
+        if (!token) return false;
+
+        const expected = Buffer.from(this.options.token);
+        const actual = Buffer.from(token);
+        return expected.length === actual.length && timingSafeEqual(expected, actual);
+    }
+
+    private async readJson(request: IncomingMessage): Promise<Record<string, unknown>> {
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        for await (const chunk of request) {
+            size += chunk.length;
+            if (size > this.options.maxBodySize) throw new HttpError(413, 'Request body too large');
+            chunks.push(chunk);
+        }
+
+        try {
+            const body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+            if (typeof body !== 'object' || body === null) throw new Error();
+            return body;
+        } catch {
+            throw new HttpError(400, 'Expected a JSON object!');
+        }
+    }
+
+    private sendJson(response: ServerResponse, status: number, body: unknown) {
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(body, (_key, value) => typeof value === 'bigint' ? value.toString() : value));
+    }
+
+    private sendError(response: ServerResponse, error: unknown) {
+        if (response.headersSent) {
+            response.end();
+            return;
+        }
+
+        if (error instanceof HttpError) {
+            this.sendJson(response, error.status, { error: error.message });
+        } else if (error instanceof OogNotInitializedError) {
+            this.sendJson(response, 503, { error: error.message });
+        } else if (error instanceof OogExecutionError) {
+            const status = error instanceof OogTimeoutError ? 504 : 500;
+            this.sendJson(response, status, { error: error.message, command: error.command, result: error.result });
+        } else {
+            this.sendJson(response, 500, { error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+}
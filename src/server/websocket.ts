@@ -0,0 +1,149 @@
+import { createHash } from 'node:crypto';
+import { IncomingMessage } from 'node:http';
+import { Duplex } from 'node:stream';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+/** The longest payload a control frame can have. Data frames are ignored anyway, so nothing longer is accepted. */
+const MAX_PAYLOAD_LENGTH = 125;
+
+enum Opcode {
+    TEXT = 0x1,
+    CLOSE = 0x8,
+    PING = 0x9,
+    PONG = 0xA,
+}
+
+/**
+ * A minimal server-side WebSocket connection, just enough to push text messages to clients.
+ *
+ * Incoming data frames are ignored; pings are answered and close frames end the connection.
+ * Clients sending a frame with more than 125 bytes of payload get disconnected.
+ */
+export class WebSocketConnection {
+    private readonly socket: Duplex;
+    private buffered: Buffer = Buffer.alloc(0);
+    private isClosed: boolean = false;
+    private closeListeners: (() => void)[] = [];
+
+    private constructor(socket: Duplex, head: Buffer) {
+        this.socket = socket;
+
+        socket.on('data', (data: Buffer) => this.receive(data));
+        socket.on('close', () => this.markClosed());
+        socket.on('error', () => this.markClosed());
+
+        if (head.length > 0) this.receive(head);
+    }
+
+    /**
+     * Completes the WebSocket handshake for an upgrade request.
+     * @param head Data the client already sent after the upgrade request
+     * @returns The connection, or null if the request wasn't a valid WebSocket upgrade
+     */
+    static accept(request: IncomingMessage, socket: Duplex, head: Buffer = Buffer.alloc(0)): WebSocketConnection | null {
+        const key = request.headers['sec-websocket-key'];
+        if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) return null;
+
+        const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+        socket.write([
+            'HTTP/1.1 101 Switching Protocols',
+            'Upgrade: websocket',
+            'Connection: Upgrade',
+            `Sec-WebSocket-Accept: ${accept}`,
+            '',
+            '',
+        ].join('\r\n'));
+
+        return new WebSocketConnection(socket, head);
+    }
+
+    send(message: string) {
+        this.sendFrame(Opcode.TEXT, Buffer.from(message, 'utf-8'));
+    }
+
+    close() {
+        if (this.isClosed) return;
+
+        this.sendFrame(Opcode.CLOSE, Buffer.alloc(0));
+        this.socket.end();
+        this.markClosed();
+    }
+
+    onClose(listener: () => void) {
+        this.closeListeners.push(listener);
+    }
+
+    private sendFrame(opcode: Opcode, payload: Buffer) {
+        if (this.isClosed) return;
+
+        let header: Buffer;
+        if (payload.length < 126) {
+            header = Buffer.from([ 0x80 | opcode, payload.length ]);
+        } else if (payload.length < 0x10000) {
+            header = Buffer.alloc(4);
+            header[0] = 0x80 | opcode;
+            header[1] = 126;
+            header.writeUInt16BE(payload.length, 2);
+        } else {
+            header = Buffer.alloc(10);
+            header[0] = 0x80 | opcode;
+            header[1] = 127;
+            header.writeBigUInt64BE(BigInt(payload.length), 2);
+        }
+
+        this.socket.write(Buffer.concat([ header, payload ]));
+    }
+
+    private receive(data: Buffer) {
+        this.buffered = Buffer.concat([ this.buffered, data ]);
+
+        while (this.buffered.length >= 2) {
+            const opcode = this.buffered[0] & 0x0F;
+            const isMasked = (this.buffered[1] & 0x80) !== 0;
+            const length = this.buffered[1] & 0x7F;
+            const offset = 2;
+
+            // 126 and 127 announce an extended length, i.e. more than 125 bytes. Buffering that is asking for trouble.
+            if (length > MAX_PAYLOAD_LENGTH) {
+                this.buffered = Buffer.alloc(0);
+                this.socket.destroy();
+                this.markClosed();
+                return;
+            }
+
+            const maskLength = isMasked ? 4 : 0;
+            if (this.buffered.length < offset + maskLength + length) return;
+
+            const mask = this.buffered.subarray(offset, offset + maskLength);
+            const payload = Buffer.from(this.buffered.subarray(offset + maskLength, offset + maskLength + length));
+            if (isMasked) {
+                for (let i = 0; i < payload.length; i++) {
+                    payload[i] ^= mask[i % 4];
+                }
+            }
+
+            this.buffered = this.buffered.subarray(offset + maskLength + length);
+            this.handleFrame(opcode, payload);
+        }
+    }
+
+    private handleFrame(opcode: number, payload: Buffer) {
+        switch (opcode) {
+            case Opcode.PING:
+                this.sendFrame(Opcode.PONG, payload);
+                break;
+            case Opcode.CLOSE:
+                this.close();
+                break;
+        }
+    }
+
+    private markClosed() {
+        if (this.isClosed) return;
+        this.isClosed = true;
+
+        for (const listener of this.closeListeners) {
+            listener();
+        }
+    }
+}
@@ -0,0 +1,185 @@
+import { existsSync, statSync } from 'node:fs';
+import { open } from 'node:fs/promises';
+import { StringDecoder } from 'node:string_decoder';
+import FileWatcher from './fileWatcher.js';
+import { FLUSH_MESSAGE } from './constants.js';
+import { FlushReason, ShellChunk } from './types.js';
+import { ShellParser } from './terminal/parsing.js';
+import { Node } from './terminal/types.js';
+import { removeColors } from './utils.js';
+
+/** A line from shell.txt. */
+export type ShellLine = {
+    /** The line as written by the game. */
+    colored: string,
+    /** The line with color tags removed. */
+    plain: string,
+};
+
+/** Keeps lines buffered while waiting for a command's output, see {@link ShellReader.hold}. */
+export type ShellHold = {
+    /** Every line read since the hold was taken, oldest first. */
+    getLines(): readonly ShellLine[],
+    /** Lets the buffer drop the held lines again. */
+    release(): void,
+};
+
+export type ShellReaderOptions = {
+    /** How many of the most recent lines to keep around for searching. */
+    maxBufferedLines: number,
+};
+
+/**
+ * Reads shell.txt incrementally, only ever reading what was appended since the last read.
+ *
+ * Keeps a bounded buffer of the most recent lines and hands every newly read chunk to its subscribers.
+ * If the file shrinks, the game cleared the shell, and reading starts over from the beginning.
+ */
+export class ShellReader {
+    private readonly shellPath: string;
+    private readonly maxBufferedLines: number;
+    private readonly listeners = new Set<(chunk: ShellChunk) => void>();
+
+    private lines: ShellLine[] = [];
+    /** How many lines were dropped from the front of the buffer so far, i.e. the number of its first line. */
+    private droppedLines: number = 0;
+    /** The numbers of the first lines of the active holds. */
+    private readonly holds = new Set<{ start: number }>();
+    private offset: number;
+    private decoder: StringDecoder = new StringDecoder('utf8');
+    private partialLine: string = '';
+    private wasTruncated: boolean = false;
+    private reading: Promise<ShellLine[]> = Promise.resolve([]);
+
+    constructor(shellPath: string, fileWatcher: FileWatcher, options?: Partial<ShellReaderOptions>) {
+        this.shellPath = shellPath;
+        this.maxBufferedLines = options?.maxBufferedLines ?? 1000;
+
+        // Whatever was in the shell before we came along isn't interesting.
+        this.offset = existsSync(shellPath) ? statSync(shellPath).size : 0;
+
+        fileWatcher.onChange(() => {
+            this.sync().catch(() => {});
+        });
+    }
+
+    /**
+     * Reads everything that was appended to shell.txt since the last read.
+     * @returns The newly read lines
+     */
+    sync(): Promise<ShellLine[]> {
+        const reading = this.reading.catch(() => []).then(() => this.read());
+        this.reading = reading;
+        return reading;
+    }
+
+    /** The most recently read lines, oldest first. */
+    getLines(): readonly ShellLine[] {
+        return this.lines;
+    }
+
+    /**
+     * Keeps every line read from now on buffered until the hold is released, even past the buffer's limit.
+     * That way, a command with a lot of output can't push its own echo out of the buffer.
+     */
+    hold(): ShellHold {
+        const hold = { start: this.droppedLines + this.lines.length };
+        this.holds.add(hold);
+
+        return {
+            getLines: () => this.lines.slice(Math.max(hold.start - this.droppedLines, 0)),
+            release: () => {
+                this.holds.delete(hold);
+                this.trim();
+            },
+        };
+    }
+
+    /**
+     * Calls the listener with every chunk of lines read from now on.
+     * @returns A function that unsubscribes the listener
+     */
+    subscribe(listener: (chunk: ShellChunk) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private async read(): Promise<ShellLine[]> {
+        const file = await open(this.shellPath, 'r');
+
+        let text: string;
+        try {
+            const { size } = await file.stat();
+            if (size < this.offset) this.reset();
+            if (size === this.offset) return [];
+
+            const buffer = Buffer.alloc(size - this.offset);
+            const { bytesRead } = await file.read(buffer, 0, buffer.length, this.offset);
+            this.offset += bytesRead;
+
+            text = this.partialLine + this.decoder.write(buffer.subarray(0, bytesRead));
+        } finally {
+            await file.close();
+        }
+
+        const lastNewline = text.lastIndexOf('\n');
+        this.partialLine = text.substring(lastNewline + 1);
+        if (lastNewline === -1) return [];
+
+        const newText = text.substring(0, lastNewline);
+        const newLines = newText.split('\n')
+            .map(line => ({ colored: line, plain: removeColors(line) }));
+
+        this.lines.push(...newLines);
+        this.trim();
+
+        this.emit(newText, newLines);
+        return newLines;
+    }
+
+    /** Drops the oldest lines beyond the buffer's limit, unless they're held. */
+    private trim() {
+        let dropCount = this.lines.length - this.maxBufferedLines;
+        for (const hold of this.holds) {
+            dropCount = Math.min(dropCount, hold.start - this.droppedLines);
+        }
+
+        if (dropCount <= 0) return;
+
+        this.lines.splice(0, dropCount);
+        this.droppedLines += dropCount;
+    }
+
+    private reset() {
+        this.offset = 0;
+        this.decoder = new StringDecoder('utf8');
+        this.partialLine = '';
+        this.droppedLines += this.lines.length;
+        this.lines = [];
+        this.wasTruncated = true;
+    }
+
+    private emit(text: string, lines: ShellLine[]) {
+        const afterTruncation = this.wasTruncated;
+        this.wasTruncated = false;
+
+        if (this.listeners.size === 0) return;
+
+        const coloredLines = lines.map(line => line.colored);
+        let nodes: Node[] | undefined;
+
+        // Parsing is only worth it if someone actually looks at the nodes.
+        const chunk: ShellChunk = {
+            reason: coloredLines.includes(FLUSH_MESSAGE) ? FlushReason.COMMAND : FlushReason.AUTO,
+            lines: coloredLines,
+            get nodes() {
+                return nodes ??= ShellParser.parse(text, { lenient: true });
+            },
+            afterTruncation: afterTruncation,
+        };
+
+        for (const listener of this.listeners) {
+            listener(chunk);
+        }
+    }
+}
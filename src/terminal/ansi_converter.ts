@@ -1,18 +1,41 @@
 import { ColorNode, Node, NodeVisitor, TextNode } from './types.js';
-import { ColorDepth, defaultTextColorHex, defaultTextColorRgba, vgaTranslationTable } from './colors.js';
-import { corruptionCharReplacements, CorruptionReplacementTable, isCorruptionChar } from './corruption.js';
+import {
+    ColorDepth,
+    defaultTextColorHex,
+    defaultTextColorRgba,
+    findNearestColor,
+    PaletteColor,
+    vgaPalette,
+    vgaTranslationTable,
+    xtermPalette
+} from './colors.js';
+import { corruptionCharReplacements, CorruptionReplacementTable, replaceCorruptionChars } from './corruption.js';
 import { ShellParser } from './parsing.js';
 
 export type AnsiConverterOptions = {
     colorDepth: ColorDepth,
     replaceCorruption: boolean,
     corruptionReplacements: CorruptionReplacementTable,
+    /**
+     * The colors to approximate others with. Defaults to {@link vgaPalette} for
+     * {@link ColorDepth.EIGHT_BIT} and {@link xtermPalette} for {@link ColorDepth.PALETTE_256}.
+     */
+    palette?: PaletteColor[],
+    /**
+     * SGR parameters for specific colors, keyed by uppercase `RRGGBB`, used instead of the closest palette color.
+     * Defaults to {@link vgaTranslationTable} for {@link ColorDepth.EIGHT_BIT} without a custom {@link palette},
+     * and nothing otherwise.
+     */
+    colorOverrides?: Record<string, string>,
 };
 
 export class AnsiConverter extends NodeVisitor {
     private readonly colorDepth: ColorDepth;
     private readonly replaceCorruption: boolean;
     private readonly corruptionReplacements: CorruptionReplacementTable;
+    private readonly palette: PaletteColor[];
+    private readonly colorOverrides: Record<string, string>;
+    private readonly paletteCache = new Map<string, string>();
 
     private readonly colorStack: string[] = [];
     private result: string = '';
@@ -31,6 +54,12 @@ export class AnsiConverter extends NodeVisitor {
         this.replaceCorruption = defaultedOptions.replaceCorruption;
         this.corruptionReplacements = defaultedOptions.corruptionReplacements;
 
+        const isEightBit = this.colorDepth === ColorDepth.EIGHT_BIT;
+        this.palette = defaultedOptions.palette ?? (isEightBit ? vgaPalette : xtermPalette);
+        // The translation table only fits the default palette, a custom one has to win.
+        const useTranslationTable = isEightBit && defaultedOptions.palette === undefined;
+        this.colorOverrides = defaultedOptions.colorOverrides ?? (useTranslationTable ? vgaTranslationTable : {});
+
         const defaultColor = this.makeAnsiColor({ colorHex: defaultTextColorHex, colorRgba: defaultTextColorRgba });
         this.colorStack.push(defaultColor);
         this.result += defaultColor;
@@ -69,42 +98,34 @@ export class AnsiConverter extends NodeVisitor {
 
     visitText(node: TextNode): void {
         const text: string = this.replaceCorruption
-            ? this.convertCorruption(node.text)
+            ? replaceCorruptionChars(node.text, this.corruptionReplacements)
             : node.text;
 
         this.result += text;
     }
 
-    private convertCorruption(text: string): string {
-        let newText: string = '';
-
-        for (const char of text) {
-            if (isCorruptionChar(char)) {
-                newText += this.corruptionReplacements[char];
-            } else {
-                newText += char;
-            }
-        }
-
-        return newText;
-    }
-
     private makeAnsiColor(node: Pick<ColorNode, 'colorHex' | 'colorRgba'>): string {
         switch (this.colorDepth) {
             case ColorDepth.NONE:
                 return '';
             case ColorDepth.EIGHT_BIT:
-                return this.makeEightBitColor(node);
+            case ColorDepth.PALETTE_256:
+                return this.makePaletteColor(node);
             case ColorDepth.TRUE_COLOR:
                 return this.makeTrueColor(node);
         }
     }
 
-    private makeEightBitColor(node: Pick<ColorNode, 'colorHex'>): string {
-        const vgaColor: string = vgaTranslationTable[node.colorHex.substring(0, 6)];
-        if (!vgaColor) throw new Error(`Unknown color: ${node.colorHex}!`);
+    private makePaletteColor(node: Pick<ColorNode, 'colorHex' | 'colorRgba'>): string {
+        const hex = node.colorHex.substring(0, 6).toUpperCase();
+
+        let code = this.colorOverrides[hex] ?? this.paletteCache.get(hex);
+        if (code === undefined) {
+            code = findNearestColor(node.colorRgba, this.palette).code;
+            this.paletteCache.set(hex, code);
+        }
 
-        return `\x1b[${vgaColor}m`;
+        return `\x1b[${code}m`;
     }
 
     private makeTrueColor(node: Pick<ColorNode, 'colorRgba'>): string {
@@ -0,0 +1,54 @@
+import { ColorNode, Node, NodeVisitor, TextNode } from './types.js';
+import { findNearestHackmudColor } from './colors.js';
+import { colorizeLines } from './color_codes.js';
+import { ShellParser } from './parsing.js';
+
+/**
+ * Converts parsed shell output back to hackmud color codes, like `` `Dtext` ``.
+ *
+ * Every color is mapped to the closest color code. Since color codes can't be
+ * nested, text always gets the color of its innermost color tag.
+ * Text without a color tag is left uncolored.
+ *
+ * Like {@link ColorCodeBuilder}, this throws on colored text containing backticks
+ * (including `«`, which the game shows as one), since they'd end the color code early.
+ */
+export class ColorCodeConverter extends NodeVisitor {
+    private readonly colorStack: string[] = [];
+    private result: string = '';
+
+    static convert(nodes: Node[]): string {
+        const converter = new ColorCodeConverter();
+        converter.visitAll(nodes);
+        return converter.getResult();
+    }
+
+    static convertFromShellText(input: string): string {
+        const nodes: Node[] = ShellParser.parse(input);
+        return this.convert(nodes);
+    }
+
+    getResult(): string {
+        return this.result;
+    }
+
+    visitColor(node: ColorNode): void {
+        this.colorStack.push(findNearestHackmudColor(node.colorRgba));
+        this.visitAll(node.children);
+        this.colorStack.pop();
+    }
+
+    /**
+     * @throws Error if the text is colored and contains a backtick
+     */
+    visitText(node: TextNode): void {
+        const letter = this.colorStack[this.colorStack.length - 1];
+        if (letter !== undefined && node.text.includes('`')) {
+            throw new Error('Colored text can\'t contain backticks!');
+        }
+
+        this.result += letter !== undefined
+            ? colorizeLines(letter, node.text)
+            : node.text;
+    }
+}
@@ -0,0 +1,77 @@
+import { findNearestHackmudColor, hackmudColors, hexToRgb } from './colors.js';
+
+const colorLetterRegex = /^[0-9a-zA-Z]$/;
+const colorHexRegex = /^#?([0-9a-fA-F]{6})(?:[0-9a-fA-F]{2})?$/;
+
+/**
+ * Gets the color code letter for a color.
+ * @param color A letter from {@link hackmudColors}, or a hex color like `#FF0000` that's mapped to the closest letter
+ */
+export const toColorLetter = (color: string): string => {
+    if (colorLetterRegex.test(color)) {
+        if (!(color in hackmudColors)) throw new Error(`Unknown color code: ${color}`);
+        return color;
+    }
+
+    const match = colorHexRegex.exec(color);
+    if (!match) throw new Error(`Unknown color: ${color}`);
+
+    return findNearestHackmudColor(hexToRgb(match[1]));
+};
+
+/**
+ * Wraps text in a color code, like `` `Dtext` ``. Color codes end at line breaks,
+ * so every line gets its own.
+ *
+ * @param color A color letter, or a hex color that's mapped to the closest one
+ */
+export const colorize = (color: string, text: string): string => {
+    const letter = toColorLetter(color);
+    return colorizeLines(letter, text);
+};
+
+/** Colors every non-empty line of the text. Doesn't validate anything. */
+export const colorizeLines = (letter: string, text: string): string => text
+    .split('\n')
+    .map(line => line === '' ? '' : `\`${letter}${line}\``)
+    .join('\n');
+
+/**
+ * Builds a color-coded string for chat messages and script arguments.
+ *
+ * ```ts
+ * const message = new ColorCodeBuilder()
+ *     .color('L', 'online')
+ *     .text(' since ')
+ *     .color('#FF8000', '12:00')
+ *     .build();
+ * ```
+ */
+export class ColorCodeBuilder {
+    private result: string = '';
+
+    /** Appends uncolored text. */
+    text(text: string): this {
+        this.result += text;
+        return this;
+    }
+
+    /**
+     * Appends colored text.
+     * @param color A color letter, or a hex color that's mapped to the closest one
+     */
+    color(color: string, text: string): this {
+        if (text.includes('`')) throw new Error('Colored text can\'t contain backticks!');
+
+        this.result += colorize(color, text);
+        return this;
+    }
+
+    build(): string {
+        return this.result;
+    }
+
+    toString(): string {
+        return this.result;
+    }
+}
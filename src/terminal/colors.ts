@@ -2,10 +2,21 @@ import { Rgba } from './types.js';
 
 export enum ColorDepth {
     NONE,
+    /** The 16 basic colors. Colors the game doesn't use are approximated. */
     EIGHT_BIT,
     TRUE_COLOR,
+    /** The 256-color xterm palette, using whichever color is closest. */
+    PALETTE_256,
 }
 
+export type Rgb = [ number, number, number ];
+
+/** A color a terminal can show, and the SGR parameters that select it. */
+export type PaletteColor = {
+    code: string,
+    rgb: Rgb,
+};
+
 export const defaultTextColorHex = '7AB2F4FF';
 export const defaultTextColorRgba: Rgba = [ 122, 178, 244, 255 ];
 
@@ -63,3 +74,183 @@ export const vgaTranslationTable: Record<string, string> = {
     'FF6A98': '1;35',
     '0C112B': '30',
 };
+
+/**
+ * The colors of hackmud's color codes, like `` `Dred` ``, by their letter.
+ * Letters sharing a color with an earlier one are left out of {@link vgaTranslationTable}.
+ */
+export const hackmudColors: Record<string, string> = {
+    '0': '9B9B9B',
+    '1': 'FFFFFF',
+    '2': '1EFF00',
+    '3': '0070DD',
+    '4': 'B035EE',
+    '5': 'FF8000',
+    'a': '000000',
+    'b': '3F3F3F',
+    'c': '676767',
+    'd': '7D0000',
+    'e': '8E3434',
+    'f': 'A34F00',
+    'g': '725437',
+    'h': 'A88600',
+    'i': 'B2934A',
+    'j': '939500',
+    'k': '495225',
+    'l': '299400',
+    'm': '23381B',
+    'n': '00535B',
+    'o': '324A4C',
+    'p': '0073A6',
+    'q': '385A6C',
+    'r': '010067',
+    's': '507AA1',
+    't': '601C81',
+    'u': '43314C',
+    'v': '8C0069',
+    'w': '973984',
+    'x': '880024',
+    'y': '762E4A',
+    'z': '101215',
+    'A': 'FFFFFF',
+    'B': 'CACACA',
+    'C': '9B9B9B',
+    'D': 'FF0000',
+    'E': 'FF8383',
+    'F': 'FF8000',
+    'G': 'F3AA6F',
+    'H': 'FBC803',
+    'I': 'FFD863',
+    'J': 'FFF404',
+    'K': 'F3F998',
+    'L': '1EFF00',
+    'M': 'B3FF9B',
+    'N': '00FFFF',
+    'O': '8FE6FF',
+    'P': '0070DD',
+    'Q': 'A4E3FF',
+    'R': '0000FF',
+    'S': '7AB2F4',
+    'T': 'B035EE',
+    'U': 'E6C4FF',
+    'V': 'FF00EC',
+    'W': 'FF96E0',
+    'X': 'FF0070',
+    'Y': 'FF6A98',
+    'Z': '0C112B',
+};
+
+/** Parses `RRGGBB`, ignoring anything after it. */
+export const hexToRgb = (hex: string): Rgb => [
+    parseInt(hex.substring(0, 2), 16),
+    parseInt(hex.substring(2, 4), 16),
+    parseInt(hex.substring(4, 6), 16),
+];
+
+const hackmudColorPalette = Object.entries(hackmudColors)
+    .map(([ letter, hex ]) => ({ letter, rgb: hexToRgb(hex) }));
+
+/**
+ * Finds the hackmud color code letter closest to a color.
+ * Colors with more than one letter get the first one in {@link hackmudColors}.
+ */
+export const findNearestHackmudColor = (color: Rgb | Rgba): string =>
+    findNearestColor(color, hackmudColorPalette).letter;
+
+/** The 16 basic colors as VGA shows them, using bold for the bright ones like {@link vgaTranslationTable}. */
+export const vgaPalette: PaletteColor[] = [
+    { code: '30', rgb: [ 0, 0, 0 ] },
+    { code: '31', rgb: [ 170, 0, 0 ] },
+    { code: '32', rgb: [ 0, 170, 0 ] },
+    { code: '33', rgb: [ 170, 85, 0 ] },
+    { code: '34', rgb: [ 0, 0, 170 ] },
+    { code: '35', rgb: [ 170, 0, 170 ] },
+    { code: '36', rgb: [ 0, 170, 170 ] },
+    { code: '37', rgb: [ 170, 170, 170 ] },
+    { code: '1;30', rgb: [ 85, 85, 85 ] },
+    { code: '1;31', rgb: [ 255, 85, 85 ] },
+    { code: '1;32', rgb: [ 85, 255, 85 ] },
+    { code: '1;33', rgb: [ 255, 255, 85 ] },
+    { code: '1;34', rgb: [ 85, 85, 255 ] },
+    { code: '1;35', rgb: [ 255, 85, 255 ] },
+    { code: '1;36', rgb: [ 85, 255, 255 ] },
+    { code: '1;37', rgb: [ 255, 255, 255 ] },
+];
+
+/** The 8 colors Discord shows in ```ansi code blocks. */
+export const discordPalette: PaletteColor[] = [
+    { code: '30', rgb: [ 79, 84, 92 ] },
+    { code: '31', rgb: [ 220, 50, 47 ] },
+    { code: '32', rgb: [ 133, 153, 0 ] },
+    { code: '33', rgb: [ 181, 137, 0 ] },
+    { code: '34', rgb: [ 38, 139, 210 ] },
+    { code: '35', rgb: [ 211, 54, 130 ] },
+    { code: '36', rgb: [ 42, 161, 152 ] },
+    { code: '37', rgb: [ 255, 255, 255 ] },
+];
+
+const makeXtermPalette = (): PaletteColor[] => {
+    const palette: PaletteColor[] = [];
+
+    // The first 16 colors are left out, since every terminal theme changes them.
+    const cubeLevels = [ 0, 95, 135, 175, 215, 255 ];
+    for (let i = 0; i < 216; i++) {
+        const rgb: Rgb = [ cubeLevels[Math.floor(i / 36)], cubeLevels[Math.floor(i / 6) % 6], cubeLevels[i % 6] ];
+        palette.push({ code: `38;5;${16 + i}`, rgb });
+    }
+
+    for (let i = 0; i < 24; i++) {
+        const level = 8 + i * 10;
+        palette.push({ code: `38;5;${232 + i}`, rgb: [ level, level, level ] });
+    }
+
+    return palette;
+};
+
+/** The color cube and grayscale ramp of the 256-color xterm palette. */
+export const xtermPalette: PaletteColor[] = makeXtermPalette();
+
+type Lab = [ number, number, number ];
+
+const linearize = (channel: number): number => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+};
+
+const labCurve = (t: number): number => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+
+/** Converts an sRGB color to CIELAB, with a D65 white point. */
+export const rgbToLab = (color: Rgb | Rgba): Lab => {
+    const r = linearize(color[0]);
+    const g = linearize(color[1]);
+    const b = linearize(color[2]);
+
+    const x = labCurve((0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047);
+    const y = labCurve(0.2126 * r + 0.7152 * g + 0.0722 * b);
+    const z = labCurve((0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883);
+
+    return [ 116 * y - 16, 500 * (x - y), 200 * (y - z) ];
+};
+
+/**
+ * Finds the color that looks the most like the given one, by distance in CIELAB.
+ * @param color The color to match. Alpha is ignored.
+ * @param candidates The colors to choose from. Must not be empty.
+ */
+export const findNearestColor = <T extends { rgb: Rgb }>(color: Rgb | Rgba, candidates: T[]): T => {
+    const [ l, a, b ] = rgbToLab(color);
+
+    let nearest = candidates[0];
+    let nearestDistance = Infinity;
+    for (const candidate of candidates) {
+        const [ cl, ca, cb ] = rgbToLab(candidate.rgb);
+        const distance = (l - cl) ** 2 + (a - ca) ** 2 + (b - cb) ** 2;
+
+        if (distance < nearestDistance) {
+            nearest = candidate;
+            nearestDistance = distance;
+        }
+    }
+
+    return nearest;
+};
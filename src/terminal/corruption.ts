@@ -17,3 +17,21 @@ export const isCorruptionChar = (c: string): c is CorruptionChar =>
     Object.keys(corruptionCharReplacements).includes(c);
 
 export type CorruptionReplacementTable = Record<CorruptionChar, string>;
+
+/**
+ * Replaces every corruption char in the text with its replacement.
+ * @param replacements What to replace each corruption char with
+ */
+export const replaceCorruptionChars = (text: string, replacements: CorruptionReplacementTable): string => {
+    let newText: string = '';
+
+    for (const char of text) {
+        if (isCorruptionChar(char)) {
+            newText += replacements[char];
+        } else {
+            newText += char;
+        }
+    }
+
+    return newText;
+};
@@ -0,0 +1,188 @@
+import { ColorNode, Node, NodeVisitor, TextNode } from './types.js';
+import { defaultTextColorRgba, discordPalette, findNearestColor } from './colors.js';
+import { corruptionCharReplacements, CorruptionReplacementTable, replaceCorruptionChars } from './corruption.js';
+import { ShellParser } from './parsing.js';
+
+export type DiscordConverterOptions = {
+    /** The maximum length of a message, including the code block around it. */
+    maxMessageLength: number,
+    replaceCorruption: boolean,
+    corruptionReplacements: CorruptionReplacementTable,
+};
+
+/** A run of text in a single color. */
+type Segment = {
+    code: string,
+    text: string,
+};
+
+const BLOCK_START = '```ansi\n';
+const BLOCK_END = '\n```';
+
+const makeAnsiColor = (code: string): string => `\x1b[${code}m`;
+
+/**
+ * Converts parsed shell output to Discord messages with ```ansi code blocks.
+ *
+ * Discord only shows 8 colors, so every color is mapped to the closest one.
+ * Output that doesn't fit into one message is split between lines, and each
+ * message starts with the color that was active where it was split.
+ */
+export class DiscordConverter extends NodeVisitor {
+    private readonly maxMessageLength: number;
+    private readonly replaceCorruption: boolean;
+    private readonly corruptionReplacements: CorruptionReplacementTable;
+
+    private readonly colorStack: string[] = [];
+    private readonly lines: Segment[][] = [ [] ];
+
+    constructor(options?: Partial<DiscordConverterOptions>) {
+        super();
+
+        const defaultedOptions: DiscordConverterOptions = {
+            maxMessageLength: 2000,
+            replaceCorruption: true,
+            corruptionReplacements: corruptionCharReplacements,
+            ...options
+        };
+
+        this.maxMessageLength = defaultedOptions.maxMessageLength;
+        this.replaceCorruption = defaultedOptions.replaceCorruption;
+        this.corruptionReplacements = defaultedOptions.corruptionReplacements;
+
+        // A message has to fit at least a color and one character.
+        if (this.maxMessageLength < BLOCK_START.length + BLOCK_END.length + makeAnsiColor('30').length + 1) {
+            throw new Error(`A maximum message length of ${this.maxMessageLength} is too short!`);
+        }
+
+        this.colorStack.push(findNearestColor(defaultTextColorRgba, discordPalette).code);
+    }
+
+    /** @returns The messages, each one a complete code block */
+    static convert(nodes: Node[], options?: Partial<DiscordConverterOptions>): string[] {
+        const converter = new DiscordConverter(options);
+        converter.visitAll(nodes);
+        return converter.getResult();
+    }
+
+    /** @returns The messages, each one a complete code block */
+    static convertFromShellText(input: string, options?: Partial<DiscordConverterOptions>): string[] {
+        const nodes: Node[] = ShellParser.parse(input);
+        return this.convert(nodes, options);
+    }
+
+    getResult(): string[] {
+        const budget = this.maxMessageLength - BLOCK_START.length - BLOCK_END.length;
+        const messages: string[] = [];
+
+        let body: string[] = [];
+        let bodyLength = -1;
+        let activeCode: string | null = null;
+
+        const endMessage = () => {
+            if (body.length > 0) messages.push(BLOCK_START + body.join('\n') + BLOCK_END);
+
+            body = [];
+            bodyLength = -1;
+            activeCode = null;
+        };
+
+        const addLine = (line: string, code: string | null) => {
+            body.push(line);
+            bodyLength += line.length + 1;
+            activeCode = code;
+        };
+
+        for (const line of this.lines) {
+            let rendered = renderLine(line, activeCode);
+            if (bodyLength + 1 + rendered.text.length > budget) {
+                endMessage();
+                rendered = renderLine(line, null);
+            }
+
+            if (rendered.text.length <= budget) {
+                addLine(rendered.text, rendered.code);
+                continue;
+            }
+
+            // The line doesn't even fit into a message on its own.
+            const pieces = splitLine(line, budget);
+            for (const piece of pieces) {
+                endMessage();
+                addLine(piece.text, piece.code);
+            }
+        }
+
+        endMessage();
+        return messages;
+    }
+
+    visitColor(node: ColorNode): void {
+        this.colorStack.push(findNearestColor(node.colorRgba, discordPalette).code);
+        this.visitAll(node.children);
+        this.colorStack.pop();
+    }
+
+    visitText(node: TextNode): void {
+        const code = this.colorStack[this.colorStack.length - 1];
+
+        const text = this.replaceCorruption
+            ? replaceCorruptionChars(node.text, this.corruptionReplacements)
+            : node.text;
+
+        // Three backticks would end the code block early.
+        const lines = text.replaceAll('```', '`\u200b`\u200b`').split('\n');
+        for (let i = 0; i < lines.length; i++) {
+            if (i > 0) this.lines.push([]);
+            if (lines[i] === '') continue;
+
+            const line = this.lines[this.lines.length - 1];
+            const lastSegment = line[line.length - 1];
+            if (lastSegment?.code === code) {
+                lastSegment.text += lines[i];
+            } else {
+                line.push({ code, text: lines[i] });
+            }
+        }
+    }
+}
+
+/**
+ * @param activeCode The color that's active at the start of the line, null if none is
+ */
+const renderLine = (line: Segment[], activeCode: string | null): { text: string, code: string | null } => {
+    let text = '';
+    let code = activeCode;
+
+    for (const segment of line) {
+        if (segment.code !== code) text += makeAnsiColor(segment.code);
+        text += segment.text;
+        code = segment.code;
+    }
+
+    return { text, code };
+};
+
+/** Splits a line into pieces of at most `budget` characters, each starting without an active color. */
+const splitLine = (line: Segment[], budget: number): { text: string, code: string | null }[] => {
+    const pieces: { text: string, code: string | null }[] = [];
+
+    let text = '';
+    let code: string | null = null;
+    for (const segment of line) {
+        for (const char of segment.text) {
+            let addition = (segment.code !== code ? makeAnsiColor(segment.code) : '') + char;
+            if (text.length + addition.length > budget) {
+                pieces.push({ text, code });
+                addition = makeAnsiColor(segment.code) + char;
+                text = '';
+            }
+
+            text += addition;
+            code = segment.code;
+        }
+    }
+
+    pieces.push({ text, code });
+    return pieces;
+};
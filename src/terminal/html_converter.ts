@@ -0,0 +1,127 @@
+import { ColorNode, Node, NodeVisitor, TextNode } from './types.js';
+import { defaultTextColorHex } from './colors.js';
+import { corruptionCharReplacements, CorruptionReplacementTable, replaceCorruptionChars } from './corruption.js';
+import { ShellParser } from './parsing.js';
+
+export enum HtmlColorMode {
+    /** Colors are set via `style="color:..."`. */
+    INLINE,
+    /** Colors are set via classes, e.g. `class="hm-1EFF00FF"`, which you need to style yourself. */
+    CLASS,
+}
+
+export type HtmlConverterOptions = {
+    colorMode: HtmlColorMode,
+    /** The prefix of color classes in {@link HtmlColorMode.CLASS} mode. */
+    classPrefix: string,
+    /** Whether to wrap the output in a `<pre>`, so it's displayed monospaced and with whitespace intact. */
+    wrapInPre: boolean,
+    replaceCorruption: boolean,
+    corruptionReplacements: CorruptionReplacementTable,
+};
+
+const htmlEscapes: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    '\'': '&#39;',
+};
+
+const escapeHtml = (text: string): string =>
+    text.replaceAll(/[&<>"']/g, char => htmlEscapes[char]);
+
+/**
+ * Converts parsed shell output to HTML.
+ *
+ * Color spans are closed at the end of every line and reopened on the next one,
+ * so the output can safely be split into lines.
+ */
+export class HtmlConverter extends NodeVisitor {
+    private readonly colorMode: HtmlColorMode;
+    private readonly classPrefix: string;
+    private readonly wrapInPre: boolean;
+    private readonly replaceCorruption: boolean;
+    private readonly corruptionReplacements: CorruptionReplacementTable;
+
+    private readonly openTags: string[] = [];
+    private result: string = '';
+
+    constructor(options?: Partial<HtmlConverterOptions>) {
+        super();
+
+        const defaultedOptions: HtmlConverterOptions = {
+            colorMode: HtmlColorMode.INLINE,
+            classPrefix: 'hm-',
+            wrapInPre: false,
+            replaceCorruption: true,
+            corruptionReplacements: corruptionCharReplacements,
+            ...options
+        };
+
+        this.colorMode = defaultedOptions.colorMode;
+        this.classPrefix = defaultedOptions.classPrefix;
+        this.wrapInPre = defaultedOptions.wrapInPre;
+        this.replaceCorruption = defaultedOptions.replaceCorruption;
+        this.corruptionReplacements = defaultedOptions.corruptionReplacements;
+
+        if (this.wrapInPre) this.result += `<pre ${this.makeColorAttribute(defaultTextColorHex)}>`;
+    }
+
+    static convert(nodes: Node[], options?: Partial<HtmlConverterOptions>): string {
+        const converter = new HtmlConverter(options);
+        converter.visitAll(nodes);
+        return converter.getResult();
+    }
+
+    static convertFromShellText(input: string, options?: Partial<HtmlConverterOptions>): string {
+        const nodes: Node[] = ShellParser.parse(input);
+        return this.convert(nodes, options);
+    }
+
+    getResult(): string {
+        if (this.wrapInPre) {
+            this.result += '</pre>';
+        }
+
+        return this.result;
+    }
+
+    visitColor(node: ColorNode): void {
+        const tag = `<span ${this.makeColorAttribute(node.colorHex)}>`;
+        this.result += tag;
+
+        this.openTags.push(tag);
+        this.visitAll(node.children);
+        this.openTags.pop();
+
+        this.result += '</span>';
+    }
+
+    visitText(node: TextNode): void {
+        const text: string = this.replaceCorruption
+            ? replaceCorruptionChars(node.text, this.corruptionReplacements)
+            : node.text;
+
+        const lines = text.split('\n');
+        this.result += escapeHtml(lines[0]);
+
+        for (const line of lines.slice(1)) {
+            this.result += '</span>'.repeat(this.openTags.length);
+            this.result += '\n';
+            this.result += this.openTags.join('');
+            this.result += escapeHtml(line);
+        }
+    }
+
+    private makeColorAttribute(colorHex: string): string {
+        switch (this.colorMode) {
+            case HtmlColorMode.INLINE: {
+                const cssColor = colorHex.endsWith('FF') ? colorHex.substring(0, 6) : colorHex;
+                return `style="color:#${cssColor}"`;
+            }
+            case HtmlColorMode.CLASS:
+                return `class="${escapeHtml(this.classPrefix)}${colorHex}"`;
+        }
+    }
+}
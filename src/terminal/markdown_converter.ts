@@ -0,0 +1,66 @@
+import { ColorNode, Node, NodeVisitor, TextNode } from './types.js';
+import { corruptionCharReplacements, CorruptionReplacementTable, replaceCorruptionChars } from './corruption.js';
+import { ShellParser } from './parsing.js';
+
+export type MarkdownConverterOptions = {
+    replaceCorruption: boolean,
+    corruptionReplacements: CorruptionReplacementTable,
+};
+
+/** Characters that mean something anywhere in a line. */
+const inlineSpecialChars = /[\\`*_~|[\]()<>]/g;
+/** Headings, quotes, lists and numbered lists, which only mean something at the start of a line. */
+const lineStartSpecialChars = /^(\s*)([#>+-]|\d+[.)])/gm;
+
+/**
+ * Converts parsed shell output to plain Markdown, dropping all colors and
+ * escaping everything Markdown would otherwise format.
+ */
+export class MarkdownConverter extends NodeVisitor {
+    private readonly replaceCorruption: boolean;
+    private readonly corruptionReplacements: CorruptionReplacementTable;
+
+    private text: string = '';
+
+    constructor(options?: Partial<MarkdownConverterOptions>) {
+        super();
+
+        const defaultedOptions: MarkdownConverterOptions = {
+            replaceCorruption: true,
+            corruptionReplacements: corruptionCharReplacements,
+            ...options
+        };
+
+        this.replaceCorruption = defaultedOptions.replaceCorruption;
+        this.corruptionReplacements = defaultedOptions.corruptionReplacements;
+    }
+
+    static convert(nodes: Node[], options?: Partial<MarkdownConverterOptions>): string {
+        const converter = new MarkdownConverter(options);
+        converter.visitAll(nodes);
+        return converter.getResult();
+    }
+
+    static convertFromShellText(input: string, options?: Partial<MarkdownConverterOptions>): string {
+        const nodes: Node[] = ShellParser.parse(input);
+        return this.convert(nodes, options);
+    }
+
+    getResult(): string {
+        // Line starts are only known once all text is there, so escaping happens at the end.
+        return this.text
+            .replace(inlineSpecialChars, '\\$&')
+            .replace(lineStartSpecialChars, (_, indent: string, marker: string) =>
+                `${indent}${marker.slice(0, -1)}\\${marker.slice(-1)}`);
+    }
+
+    visitColor(node: ColorNode): void {
+        this.visitAll(node.children);
+    }
+
+    visitText(node: TextNode): void {
+        this.text += this.replaceCorruption
+            ? replaceCorruptionChars(node.text, this.corruptionReplacements)
+            : node.text;
+    }
+}
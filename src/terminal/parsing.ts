@@ -1,4 +1,4 @@
-import { Node, NodeType, ParseNode, Rgba } from './types.js';
+import { Node, NodeType, ParseNode, Rgba, TextNode } from './types.js';
 
 const hexToRgba = (color: string): Rgba => {
     const r = parseInt(color.substring(0, 2), 16);
@@ -21,87 +21,149 @@ const charReplacements = {
 export const isReplaceable = (c: string): c is (keyof typeof charReplacements) =>
     Object.keys(charReplacements).includes(c);
 
+const colorTagRegex = /<color=#([0-9a-fA-F]{8})>/y;
+
+export type ShellParserOptions = {
+    /**
+     * Instead of throwing, treat unknown and unbalanced tags as text and close
+     * colors that are still open at the end. The problems are collected as diagnostics.
+     */
+    lenient: boolean,
+};
+
+/** A problem found while parsing, with the offsets of the offending part of the input. */
+export type ParseDiagnostic = {
+    message: string,
+    start: number,
+    end: number,
+};
+
 export class ShellParser {
-    private str: string;
+    private readonly str: string;
+    private readonly lenient: boolean;
+    private readonly diagnostics: ParseDiagnostic[] = [];
+    private pos = 0;
 
-    constructor(input: string) {
+    constructor(input: string, options?: Partial<ShellParserOptions>) {
         this.str = input;
+        this.lenient = options?.lenient ?? false;
     }
 
-    static parse(input: string): Node[] {
-        return new ShellParser(input).parseAll();
+    static parse(input: string, options?: Partial<ShellParserOptions>): Node[] {
+        return new ShellParser(input, options).parseAll();
     }
 
     parseAll(): Node[] {
         let nodes: Node[] = [];
 
-        while (this.str.length > 0) {
+        while (this.pos < this.str.length) {
             const newNode = this.parseTag();
-            if (newNode.type === NodeType.END_TAG) throw new Error(`Dangling end tag! ${newNode.name}`);
+            if (newNode.type === NodeType.END_TAG) {
+                this.fail(`Dangling end tag! ${newNode.name}`, newNode.start, newNode.end);
+                appendNode(nodes, this.makeText(newNode.start, newNode.end));
+                continue;
+            }
 
-            nodes.push(newNode);
+            appendNode(nodes, newNode);
         }
 
         return nodes;
     }
 
+    /** The problems found so far. Only lenient parsing gets past the first one. */
+    getDiagnostics(): ParseDiagnostic[] {
+        return this.diagnostics;
+    }
+
     private parseTag(): ParseNode {
-        if (!this.str.startsWith('<')) return this.parseText();
-        if (this.str.startsWith('</')) return this.parseEndTag();
+        if (this.str[this.pos] !== '<') return this.parseText();
+        if (this.str.startsWith('</', this.pos)) return this.parseEndTag();
 
-        if (!this.str.startsWith('<color=#')) {
-            const firstEquals = this.str.indexOf('>');
-            throw new Error(`Unknown tag: ${this.str.substring(1, firstEquals)}`);
+        const start = this.pos;
+
+        colorTagRegex.lastIndex = start;
+        const match = colorTagRegex.exec(this.str);
+        if (!match) {
+            const tagEnd = this.str.indexOf('>', start);
+            const nameEnd = tagEnd === -1 ? this.str.length : tagEnd;
+            this.fail(`Unknown tag: ${this.str.substring(start + 1, nameEnd)}`, start, tagEnd === -1 ? nameEnd : nameEnd + 1);
+
+            return this.parseText(true);
         }
 
-        let lengthOfTagStart = '<color=#'.length;
-        const colorHex = this.str.substring(lengthOfTagStart, lengthOfTagStart + 8);
+        const colorHex = match[1];
         const colorRgba = hexToRgba(colorHex);
 
-        this.str = this.str.substring(lengthOfTagStart + 9);
+        this.pos = colorTagRegex.lastIndex;
 
         let children: Node[] = [];
-        let foundEnd = false;
-        while (this.str.length > 0) {
+        while (this.pos < this.str.length) {
             const newNode = this.parseTag();
 
             if (newNode.type !== NodeType.END_TAG) {
-                children.push(newNode);
+                appendNode(children, newNode);
                 continue;
             }
 
-            if (newNode.name !== 'color') throw new Error(`Dangling end tag! ${newNode.name}`);
+            if (newNode.name === 'color') {
+                return {
+                    type: NodeType.COLOR,
+                    colorHex: colorHex,
+                    colorRgba: colorRgba,
+                    children: children,
+                    start: start,
+                    end: this.pos,
+                };
+            }
 
-            foundEnd = true;
-            break;
+            this.fail(`Dangling end tag! ${newNode.name}`, newNode.start, newNode.end);
+            appendNode(children, this.makeText(newNode.start, newNode.end));
         }
 
-        if (!foundEnd) throw new Error('Expected </color>, but got EOF!');
+        this.fail('Expected </color>, but got EOF!', start, this.pos);
 
         return {
             type: NodeType.COLOR,
             colorHex: colorHex,
             colorRgba: colorRgba,
             children: children,
+            start: start,
+            end: this.pos,
         };
     }
 
     private parseEndTag(): ParseNode {
-        const endIndex = this.str.indexOf('>');
-        if (endIndex === -1) throw new Error(`Tag was never closed: ${this.str}`);
+        const start = this.pos;
 
-        const tagName = this.str.substring(2, endIndex);
-        this.str = this.str.substring(endIndex + 1);
-        return { type: NodeType.END_TAG, name: tagName };
+        const endIndex = this.str.indexOf('>', start);
+        if (endIndex === -1) {
+            this.fail(`Tag was never closed: ${this.str.substring(start)}`, start, this.str.length);
+            return this.parseText(true);
+        }
+
+        const tagName = this.str.substring(start + 2, endIndex);
+        this.pos = endIndex + 1;
+        return { type: NodeType.END_TAG, name: tagName, start, end: this.pos };
+    }
+
+    /**
+     * @param startsWithLiteral Whether the text starts with a `<` that couldn't be parsed as a tag
+     */
+    private parseText(startsWithLiteral: boolean = false): ParseNode {
+        const start = this.pos;
+
+        let i = startsWithLiteral ? start + 1 : start;
+        while (i < this.str.length && this.str[i] !== '<') i++;
+
+        this.pos = i;
+        return this.makeText(start, i);
     }
 
-    private parseText(): ParseNode {
+    private makeText(start: number, end: number): TextNode {
         let text = '';
 
-        let i = 0;
-        for (; i < this.str.length; i++) {
+        for (let i = start; i < end; i++) {
             const char = this.str[i];
-            if (char === '<') break;
 
             if (isReplaceable(char)) {
                 text += charReplacements[char];
@@ -110,7 +172,23 @@ export class ShellParser {
             }
         }
 
-        this.str = this.str.substring(i);
-        return { type: NodeType.TEXT, text };
+        return { type: NodeType.TEXT, text, start, end };
+    }
+
+    private fail(message: string, start: number, end: number) {
+        if (!this.lenient) throw new Error(message);
+        this.diagnostics.push({ message, start, end });
     }
 }
+
+/** Adds a node, merging it into the previous one if both are text. */
+const appendNode = (nodes: Node[], node: Node) => {
+    const previous = nodes[nodes.length - 1];
+    if (node.type !== NodeType.TEXT || previous?.type !== NodeType.TEXT) {
+        nodes.push(node);
+        return;
+    }
+
+    previous.text += node.text;
+    previous.end = node.end;
+};
@@ -0,0 +1,32 @@
+import { ColorNode, Node, NodeVisitor, TextNode } from './types.js';
+import { ShellParser } from './parsing.js';
+
+/**
+ * Converts parsed shell output to plain text, dropping all colors.
+ */
+export class TextConverter extends NodeVisitor {
+    private result: string = '';
+
+    static convert(nodes: Node[]): string {
+        const converter = new TextConverter();
+        converter.visitAll(nodes);
+        return converter.getResult();
+    }
+
+    static convertFromShellText(input: string): string {
+        const nodes: Node[] = ShellParser.parse(input);
+        return this.convert(nodes);
+    }
+
+    getResult(): string {
+        return this.result;
+    }
+
+    visitColor(node: ColorNode): void {
+        this.visitAll(node.children);
+    }
+
+    visitText(node: TextNode): void {
+        this.result += node.text;
+    }
+}
@@ -4,14 +4,22 @@ export enum NodeType {
     END_TAG,
 }
 
-export type TextNode = {
+/** Where a node came from in the parsed input. Nodes that weren't parsed have no offsets. */
+export type SourceOffsets = {
+    /** The offset of the first character of the node. */
+    start?: number,
+    /** The offset after the last character of the node, including its end tag. */
+    end?: number,
+};
+
+export type TextNode = SourceOffsets & {
     type: NodeType.TEXT,
     text: string,
 };
 
 export type Rgba = [ number, number, number, number ];
 
-export type ColorNode = {
+export type ColorNode = SourceOffsets & {
     type: NodeType.COLOR,
     colorHex: string,
     colorRgba: Rgba,
@@ -21,6 +29,8 @@ export type ColorNode = {
 export type EndTag = {
     type: NodeType.END_TAG,
     name: string,
+    start: number,
+    end: number,
 };
 
 export type Node = TextNode | ColorNode;
@@ -0,0 +1,156 @@
+/** How long HmOog waits between steps, in milliseconds. */
+export type TimingProfile = {
+    /** How long to wait after typing a command, before doing anything else. */
+    keystrokeDelay: number,
+    /** How long to wait after pressing escape, before typing the command. */
+    preCommandDelay: number,
+    /** How long to wait after typing the command, before flushing the shell. */
+    postCommandDelay: number,
+    /** How often to press enter while waiting for the flush to show up in shell.txt. */
+    flushPollInterval: number,
+    /** How long to wait for a flush to show up in shell.txt when no timeout was given. */
+    flushTimeout: number,
+    /** How long the game takes to disconnect from the hardline. Not tuned in adaptive mode, since it's the game's pace. */
+    hardlineExitDelay: number,
+    /**
+     * Whether to tune the delays to the measured round trip from keystroke to shell.txt change.
+     * Delays are scaled by how much slower or faster the round trip is than {@link expectedRoundTrip}.
+     */
+    adaptive: boolean,
+    /** The round trip the delays are made for. Only used in adaptive mode. */
+    expectedRoundTrip: number,
+};
+
+export const defaultTimingProfile: TimingProfile = {
+    keystrokeDelay: 50,
+    preCommandDelay: 500,
+    postCommandDelay: 500,
+    flushPollInterval: 50,
+    flushTimeout: 10000,
+    hardlineExitDelay: 5000,
+    adaptive: false,
+    expectedRoundTrip: 250,
+};
+
+/** A summary of measured latencies, in milliseconds. */
+export type LatencySummary = {
+    /** How many measurements the summary is based on. */
+    count: number,
+    min: number,
+    max: number,
+    mean: number,
+    /** The median. */
+    p50: number,
+    p90: number,
+};
+
+/** See {@link HmOog.getLatencyStats}. */
+export type LatencyStats = {
+    /** How long it takes from typing `flush` until shell.txt changes. */
+    roundTrip: LatencySummary | null,
+    /** How long each script took to run, from typing it until the result was read, by script name. */
+    commands: Record<string, LatencySummary>,
+    /** The timing currently in use, which is tuned in adaptive mode. */
+    profile: TimingProfile,
+};
+
+/** How many of the most recent measurements are kept per kind. */
+const MAX_SAMPLES = 100;
+/** How many round trips need to be measured before adaptive mode tunes anything. */
+const MIN_ADAPTIVE_SAMPLES = 3;
+/** Adaptive mode doesn't scale delays beyond these factors. */
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 10;
+
+/**
+ * Measures latencies and, in adaptive mode, tunes the timing profile to them.
+ */
+export class TimingTracker {
+    private readonly baseProfile: TimingProfile;
+    private readonly roundTrips: number[] = [];
+    private readonly commands = new Map<string, number[]>();
+    private profile: TimingProfile;
+
+    constructor(profile: TimingProfile) {
+        this.baseProfile = profile;
+        this.profile = profile;
+    }
+
+    /** The timing to use right now. */
+    getProfile(): TimingProfile {
+        return this.profile;
+    }
+
+    recordRoundTrip(ms: number) {
+        addSample(this.roundTrips, ms);
+        if (this.baseProfile.adaptive) this.tune();
+    }
+
+    /**
+     * @param command The full command, which is grouped by its script name
+     */
+    recordCommand(command: string, ms: number) {
+        const scriptName = command.trim().split(/[\s{]/)[0];
+
+        let samples = this.commands.get(scriptName);
+        if (!samples) {
+            samples = [];
+            this.commands.set(scriptName, samples);
+        }
+
+        addSample(samples, ms);
+    }
+
+    getStats(): LatencyStats {
+        const commands: Record<string, LatencySummary> = {};
+        for (const [ scriptName, samples ] of this.commands) {
+            commands[scriptName] = summarize(samples)!;
+        }
+
+        return {
+            roundTrip: summarize(this.roundTrips),
+            commands,
+            profile: { ...this.profile },
+        };
+    }
+
+    private tune() {
+        if (this.roundTrips.length < MIN_ADAPTIVE_SAMPLES) return;
+
+        // The p90 rather than the mean, since a delay that's too short is worse than one that's too long.
+        const roundTrip = summarize(this.roundTrips)!.p90;
+        const scale = Math.min(Math.max(roundTrip / this.baseProfile.expectedRoundTrip, MIN_SCALE), MAX_SCALE);
+
+        const base = this.baseProfile;
+        this.profile = {
+            ...base,
+            keystrokeDelay: Math.round(base.keystrokeDelay * scale),
+            preCommandDelay: Math.round(base.preCommandDelay * scale),
+            postCommandDelay: Math.round(base.postCommandDelay * scale),
+            flushPollInterval: Math.max(Math.round(base.flushPollInterval * scale), 1),
+            // Timeouts only ever grow, a fast round trip doesn't mean scripts run faster.
+            flushTimeout: Math.round(base.flushTimeout * Math.max(scale, 1)),
+        };
+    }
+}
+
+const addSample = (samples: number[], ms: number) => {
+    samples.push(ms);
+    if (samples.length > MAX_SAMPLES) samples.shift();
+};
+
+const summarize = (samples: number[]): LatencySummary | null => {
+    if (samples.length === 0) return null;
+
+    const sorted = [ ...samples ].sort((a, b) => a - b);
+    const percentile = (p: number) => sorted[Math.min(Math.floor(sorted.length * p), sorted.length - 1)];
+
+    return {
+        count: sorted.length,
+        min: sorted[0],
+        max: sorted[sorted.length - 1],
+        mean: sorted.reduce((sum, sample) => sum + sample, 0) / sorted.length,
+        p50: percentile(0.5),
+        p90: percentile(0.9),
+    };
+};
@@ -1,3 +1,6 @@
+import { HackmudValue } from './valueParser.js';
+import { Node } from './terminal/types.js';
+
 /** An execution result from {@link HmOog.run} */
 export type ExecutionResult = {
     /**
@@ -35,6 +38,31 @@ export type ExecutionResult = {
         /** The raw output from the script, split into lines and with ANSI coloring. */
         lines: string[],
     },
+    /** The colored output from the script as HTML, see {@link HtmlConverter}. */
+    html: {
+        /** The command as HTML, never wrapped in a `<pre>`. */
+        command: string,
+        /** The output from the script as HTML, wrapped in a `<pre>` if enabled. */
+        raw: string,
+        /** The output from the script as HTML, split into lines, never wrapped in a `<pre>`. */
+        lines: string[],
+    },
+    /** The output from the script as Discord messages with ```ansi code blocks, see {@link DiscordConverter}. */
+    discord: string[],
+    /** The output from the script as escaped Markdown, without colors. */
+    markdown: {
+        /** The command as Markdown */
+        command: string,
+        /** The output from the script as Markdown. */
+        raw: string,
+        /** The output from the script as Markdown, split into lines. */
+        lines: string[],
+    },
+    /**
+     * The output parsed into a JavaScript value if the script printed an object or array,
+     * otherwise the same as `uncolored.raw`.
+     */
+    parsed: HackmudValue,
 };
 
 /** The reason the shell was flushed. */
@@ -44,3 +72,15 @@ export enum FlushReason {
     /** The shell was flushed manually, i.e., via `flush`. */
     COMMAND,
 }
+
+/** Lines that were newly written to shell.txt, see {@link HmOog.watch}. */
+export type ShellChunk = {
+    /** Whether the game flushed the shell on its own, or a `flush` command caused it. */
+    reason: FlushReason,
+    /** The new lines, still colored. */
+    lines: string[],
+    /** The new lines, parsed. */
+    nodes: Node[],
+    /** Whether the game cleared the shell right before these lines were written. */
+    afterTruncation: boolean,
+};
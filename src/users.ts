@@ -0,0 +1,98 @@
+import { EventEmitter } from 'node:events';
+import { FAILURE_MESSAGE } from './constants.js';
+import { HardlineStateMachine } from './hardline.js';
+import { removeColors } from './utils.js';
+import { nameSegment } from './scriptArguments.js';
+
+const userCommandRegex = new RegExp(`^>>user (${nameSegment})\\s*$`);
+/** What the game prints when it can't switch to a user, besides Failure. */
+const userSwitchErrorRegex = /does(?: not|n't) exist|not (?:a valid|your) user|invalid user/i;
+
+export type UserEvents = {
+    /** The current user changed. */
+    switch: [ user: string, previous: string | null ],
+};
+
+/**
+ * Follows which user is logged in by watching the shell for `user` commands,
+ * and keeps per-user state, like the hardline status.
+ *
+ * A switch only counts once the next command shows up without the game complaining first.
+ */
+export class UserTracker extends EventEmitter<UserEvents> {
+    private currentUser: string | null = null;
+    private pendingUser: string | null = null;
+    /** Hardlines by user. The null user is whoever was logged in before the first switch. */
+    private readonly hardlines = new Map<string | null, HardlineStateMachine>();
+
+    /** The current user, or null if no switch has been seen yet. */
+    getCurrentUser(): string | null {
+        return this.currentUser;
+    }
+
+    /**
+     * Gets the hardline status of a user.
+     * @param user The user, defaults to the current one
+     */
+    getHardline(user: string | null = this.currentUser): HardlineStateMachine {
+        let hardline = this.hardlines.get(user);
+        if (!hardline) {
+            hardline = new HardlineStateMachine();
+            this.hardlines.set(user, hardline);
+        }
+
+        return hardline;
+    }
+
+    /**
+     * Updates the current user from new shell lines, passing everything else on to the user's hardline.
+     * @param lines The new lines, still colored
+     */
+    feed(lines: string[]) {
+        let userLines: string[] = [];
+
+        for (const line of lines) {
+            const plain = removeColors(line);
+
+            const userCommand = userCommandRegex.exec(plain);
+            if (userCommand) {
+                this.confirmPendingUser(userLines);
+                userLines = [];
+
+                this.pendingUser = userCommand[1];
+                continue;
+            }
+
+            if (this.pendingUser !== null) {
+                if (line === FAILURE_MESSAGE || userSwitchErrorRegex.test(plain)) {
+                    this.pendingUser = null;
+                } else if (plain.startsWith('>>')) {
+                    this.confirmPendingUser(userLines);
+                    userLines = [];
+                }
+            }
+
+            userLines.push(line);
+        }
+
+        this.getHardline().feed(userLines);
+    }
+
+    /**
+     * Switches to the pending user, if any.
+     * @param previousLines Lines that still belong to the previous user
+     */
+    private confirmPendingUser(previousLines: string[]) {
+        this.getHardline().feed(previousLines);
+
+        const user = this.pendingUser;
+        if (user === null) return;
+
+        this.pendingUser = null;
+        if (user === this.currentUser) return;
+
+        const previous = this.currentUser;
+        this.currentUser = user;
+        this.emit('switch', user, previous);
+    }
+}
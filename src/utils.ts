@@ -1,29 +1,140 @@
 import process from 'node:process';
+import { existsSync } from 'node:fs';
+import { homedir } from 'node:os';
 import { join as joinPath } from 'path';
 import { OogInitializationError } from './errors.js';
+import { GREATER_THAN_ENCODED, LESS_THAN_ENCODED } from './constants.js';
+import { ConsoleLogger, Logger } from './logger.js';
+
+/** Hackmud's Steam app ID, used to find its Proton prefix. */
+const HACKMUD_APP_ID = '469920';
+
+const getSteamRoots = (home: string): string[] => [
+    joinPath(home, '.steam', 'steam'),
+    joinPath(home, '.local', 'share', 'Steam'),
+    joinPath(home, '.var', 'app', 'com.valvesoftware.Steam', '.local', 'share', 'Steam'),
+];
 
 /**
- * Gets the shell.txt path for the current system.
+ * Gets the directories Hackmud might keep its files in on the current system, most likely first.
  */
-export const getShellPath = (): string => {
-    let hackmudPath: string;
+const getHackmudPathCandidates = (): string[] => {
+    const home = homedir();
+
     switch (process.platform) {
         case 'win32':
-            hackmudPath = joinPath(process.env.APPDATA!, 'hackmud');
-            break;
+            return process.env.APPDATA ? [ joinPath(process.env.APPDATA, 'hackmud') ] : [];
+        case 'darwin':
+            return [ joinPath(home, 'Library', 'Application Support', 'hackmud') ];
+        case 'linux': {
+            const candidates: string[] = [];
+            if (process.env.XDG_CONFIG_HOME) {
+                candidates.push(joinPath(process.env.XDG_CONFIG_HOME, 'hackmud'));
+            }
+
+            candidates.push(joinPath(home, '.config', 'hackmud'));
+
+            for (const steamRoot of getSteamRoots(home)) {
+                candidates.push(joinPath(
+                    steamRoot, 'steamapps', 'compatdata', HACKMUD_APP_ID,
+                    'pfx', 'drive_c', 'users', 'steamuser', 'AppData', 'Roaming', 'hackmud',
+                ));
+            }
+
+            return candidates;
+        }
         default:
             throw new OogInitializationError(`Unsupported platform ${process.platform}! Please yell at Sarah.`);
     }
+};
+
+/**
+ * Gets the shell.txt path for the current system.
+ *
+ * The `HMOOG_SHELL_PATH` environment variable takes precedence over the
+ * platform's known locations, if set.
+ */
+export const getShellPath = (): string => {
+    if (process.env.HMOOG_SHELL_PATH) return process.env.HMOOG_SHELL_PATH;
+
+    const candidates = getHackmudPathCandidates()
+        .map(hackmudPath => joinPath(hackmudPath, 'shell.txt'));
+
+    const shellPath = candidates.find(candidate => existsSync(candidate));
+    if (shellPath) return shellPath;
 
-    return joinPath(hackmudPath, 'shell.txt');
+    const triedPaths = candidates.map(candidate => `\n  - ${candidate}`).join('');
+    throw new OogInitializationError(
+        `Couldn't find shell.txt! Set HMOOG_SHELL_PATH or pass shellPath explicitly. Tried:${triedPaths}`);
 };
 
 /**
  * Sleep for a specified time.
  * @param ms The number of milliseconds to sleep for.
+ * @param signal Cuts the sleep short, rejecting with the signal's reason.
  */
-export const waitMs = (ms: number): Promise<void> =>
-    new Promise(resolve => setTimeout(resolve, ms));
+export const waitMs = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+/**
+ * Turns a listener-based subscription into an async iterator. Values that arrive
+ * while nobody is waiting for them are buffered.
+ *
+ * @param subscribe Subscribes the given listener, returning a function that unsubscribes it
+ */
+export const toAsyncIterator = <T>(subscribe: (listener: (value: T) => void) => () => void): AsyncIterableIterator<T> => {
+    const buffered: T[] = [];
+    let waiting: ((result: IteratorResult<T>) => void) | null = null;
+    let isDone = false;
+
+    const unsubscribe = subscribe(value => {
+        if (!waiting) {
+            buffered.push(value);
+            return;
+        }
+
+        waiting({ value, done: false });
+        waiting = null;
+    });
+
+    return {
+        next(): Promise<IteratorResult<T>> {
+            if (buffered.length > 0) return Promise.resolve({ value: buffered.shift()!, done: false });
+            if (isDone) return Promise.resolve({ value: undefined, done: true });
+
+            return new Promise(resolve => waiting = resolve);
+        },
+        async return(): Promise<IteratorResult<T>> {
+            isDone = true;
+            unsubscribe();
+
+            waiting?.({ value: undefined, done: true });
+            waiting = null;
+
+            return { value: undefined, done: true };
+        },
+        [Symbol.asyncIterator]() {
+            return this;
+        },
+    };
+};
 
 /**
  * Helper method that removes color tags from a string.
@@ -35,19 +146,28 @@ export const removeColors = (str: string): string => {
         .replaceAll('</color>', '');
 };
 
+/**
+ * Encodes angled brackets the way the game does when writing them to shell.txt.
+ * @param str The string to encode
+ */
+export const encodeAngledBrackets = (str: string): string =>
+    str.replaceAll('<', LESS_THAN_ENCODED)
+        .replaceAll('>', GREATER_THAN_ENCODED);
+
 /**
  * Helper method to pop expected values from a list, printing a warning if it's something else.
  *
  * @param arr The array to pop from
  * @param expected The expected value
+ * @param logger Where to print the warning
  */
-export const popAssert = <T>(arr: T[], expected: T): void => {
+export const popAssert = <T>(arr: T[], expected: T, logger: Logger = new ConsoleLogger()): void => {
     const poopedValue = arr.pop();
     if (poopedValue === expected) return;
 
-    console.warn(`Expected to remove ${expected}, but it actually was ${poopedValue}?`);
+    logger.warn(`Expected to remove ${expected}, but it actually was ${poopedValue}?`);
     if (poopedValue !== undefined) {
-        console.warn('Pushing it back, just to be safe.');
+        logger.warn('Pushing it back, just to be safe.');
         arr.push(poopedValue);
     }
 };
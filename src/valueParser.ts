@@ -0,0 +1,193 @@
+/** A value as printed by hackmud. */
+export type HackmudValue = string | number | boolean | null | HackmudValue[] | HackmudObject;
+export type HackmudObject = { [key: string]: HackmudValue };
+
+const identifierStartRegex = /[A-Za-z_$]/;
+const identifierRegex = /[A-Za-z0-9_$]/;
+const numberRegex = /^-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+
+const escapes: Record<string, string> = {
+    'n': '\n',
+    't': '\t',
+    'r': '\r',
+    'b': '\b',
+    'f': '\f',
+    '0': '\0',
+};
+
+/**
+ * Parses hackmud's printed object literal syntax, i.e. JSON with unquoted keys,
+ * back into JavaScript values.
+ *
+ * Expects uncolored text, see {@link removeColors}.
+ */
+export class ValueParser {
+    private readonly str: string;
+    private pos: number = 0;
+
+    constructor(input: string) {
+        this.str = input;
+    }
+
+    static parse(input: string): HackmudValue {
+        return new ValueParser(input).parseAll();
+    }
+
+    /**
+     * Parses the input if it's a printed object or array.
+     * @returns The parsed value, or undefined if the input isn't structured
+     */
+    static tryParseStructured(input: string): HackmudObject | HackmudValue[] | undefined {
+        const trimmed = input.trim();
+        if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return undefined;
+
+        try {
+            return ValueParser.parse(trimmed) as HackmudObject | HackmudValue[];
+        } catch {
+            return undefined;
+        }
+    }
+
+    parseAll(): HackmudValue {
+        const value = this.parseValue();
+
+        this.skipWhitespace();
+        if (this.pos < this.str.length) this.fail('end of input');
+
+        return value;
+    }
+
+    private parseValue(): HackmudValue {
+        this.skipWhitespace();
+
+        const char = this.str[this.pos];
+        if (char === '{') return this.parseObject();
+        if (char === '[') return this.parseArray();
+        if (char === '"' || char === '\'') return this.parseString();
+
+        const number = numberRegex.exec(this.str.substring(this.pos));
+        if (number) {
+            this.pos += number[0].length;
+            return Number(number[0]);
+        }
+
+        const word = this.parseIdentifier();
+        switch (word) {
+            case 'true':
+                return true;
+            case 'false':
+                return false;
+            case 'null':
+            case 'undefined':
+                return null;
+            case 'Infinity':
+                return Infinity;
+            case 'NaN':
+                return NaN;
+        }
+
+        this.fail('a value');
+    }
+
+    private parseObject(): HackmudObject {
+        const object: HackmudObject = {};
+        this.expect('{');
+
+        while (true) {
+            this.skipWhitespace();
+            if (this.consume('}')) return object;
+
+            const key = this.str[this.pos] === '"' || this.str[this.pos] === '\''
+                ? this.parseString()
+                : this.parseIdentifier();
+            if (key === '') this.fail('a key');
+
+            this.skipWhitespace();
+            this.expect(':');
+
+            object[key] = this.parseValue();
+
+            this.skipWhitespace();
+            if (!this.consume(',')) {
+                this.expect('}');
+                return object;
+            }
+        }
+    }
+
+    private parseArray(): HackmudValue[] {
+        const array: HackmudValue[] = [];
+        this.expect('[');
+
+        while (true) {
+            this.skipWhitespace();
+            if (this.consume(']')) return array;
+
+            array.push(this.parseValue());
+
+            this.skipWhitespace();
+            if (!this.consume(',')) {
+                this.expect(']');
+                return array;
+            }
+        }
+    }
+
+    private parseString(): string {
+        const quote = this.str[this.pos++];
+        let text = '';
+
+        while (this.pos < this.str.length) {
+            const char = this.str[this.pos++];
+            if (char === quote) return text;
+
+            if (char !== '\\') {
+                text += char;
+                continue;
+            }
+
+            const escaped = this.str[this.pos++];
+            if (escaped === 'u') {
+                text += String.fromCharCode(parseInt(this.str.substring(this.pos, this.pos + 4), 16));
+                this.pos += 4;
+            } else {
+                text += escapes[escaped] ?? escaped;
+            }
+        }
+
+        this.fail(quote);
+    }
+
+    private parseIdentifier(): string {
+        const start = this.pos;
+        if (!identifierStartRegex.test(this.str[this.pos] ?? '')) return '';
+
+        while (this.pos < this.str.length && identifierRegex.test(this.str[this.pos])) {
+            this.pos++;
+        }
+
+        return this.str.substring(start, this.pos);
+    }
+
+    private skipWhitespace() {
+        while (this.pos < this.str.length && /\s/.test(this.str[this.pos])) {
+            this.pos++;
+        }
+    }
+
+    private consume(char: string): boolean {
+        if (this.str[this.pos] !== char) return false;
+
+        this.pos++;
+        return true;
+    }
+
+    private expect(char: string) {
+        if (!this.consume(char)) this.fail(`'${char}'`);
+    }
+
+    private fail(expected: string): never {
+        const found = this.pos < this.str.length ? `'${this.str[this.pos]}'` : 'EOF';
+        throw new Error(`Expected ${expected} at position ${this.pos}, but got ${found}!`);
+    }
+}
@@ -0,0 +1,52 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnsiConverter } from '../src/terminal/ansi_converter.js';
+import { ColorDepth } from '../src/terminal/colors.js';
+
+const red = 'a<color=#FF0000FF>b</color>';
+
+describe('AnsiConverter', () => {
+    test('uses true colors by default', () => {
+        assert.equal(
+            AnsiConverter.convertFromShellText(red),
+            '\x1b[38;2;122;178;244ma\x1b[38;2;255;0;0mb\x1b[38;2;122;178;244m\x1b[0m',
+        );
+    });
+
+    test('leaves out colors without a color depth', () => {
+        assert.equal(AnsiConverter.convertFromShellText(red, { colorDepth: ColorDepth.NONE }), 'ab');
+    });
+
+    test('translates the game\'s colors to the 16 basic ones', () => {
+        assert.equal(
+            AnsiConverter.convertFromShellText(red, { colorDepth: ColorDepth.EIGHT_BIT }),
+            '\x1b[1;34ma\x1b[1;31mb\x1b[1;34m\x1b[0m',
+        );
+    });
+
+    test('approximates colors the game doesn\'t use', () => {
+        const result = AnsiConverter.convertFromShellText('<color=#0000A0FF>x</color>', { colorDepth: ColorDepth.EIGHT_BIT });
+        assert.ok(result.includes('\x1b[34mx'), JSON.stringify(result));
+    });
+
+    test('uses the closest xterm color for 256 colors', () => {
+        const result = AnsiConverter.convertFromShellText(red, { colorDepth: ColorDepth.PALETTE_256 });
+        assert.ok(result.includes('\x1b[38;5;196mb'), JSON.stringify(result));
+    });
+
+    test('prefers color overrides over the palette', () => {
+        const result = AnsiConverter.convertFromShellText(red, {
+            colorDepth: ColorDepth.PALETTE_256,
+            colorOverrides: { 'FF0000': '91' },
+        });
+        assert.ok(result.includes('\x1b[91mb'), JSON.stringify(result));
+    });
+
+    test('uses a custom palette instead of the game\'s translation table', () => {
+        const result = AnsiConverter.convertFromShellText(red, {
+            colorDepth: ColorDepth.EIGHT_BIT,
+            palette: [ { code: '99', rgb: [ 0, 0, 0 ] } ],
+        });
+        assert.equal(result, '\x1b[99ma\x1b[99mb\x1b[99m\x1b[0m');
+    });
+});
@@ -0,0 +1,172 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Breacher, BreachStatus } from '../src/breach/breacher.js';
+import { parseLockFeedback } from '../src/breach/feedback.js';
+import { DataCheckSolver, defaultSolvers } from '../src/breach/solvers.js';
+import { ScriptArguments } from '../src/scriptArguments.js';
+import { ValueParser } from '../src/valueParser.js';
+import { startFakeGame } from './fakeGame.js';
+
+describe('parseLockFeedback', () => {
+    test('finds the lock that denied access', () => {
+        const feedback = parseLockFeedback('Denied access by HALPERYON SYSTEMS EZ_21 lock.');
+
+        assert.equal(feedback.lock, 'EZ_21');
+        assert.equal(feedback.error, false);
+        assert.equal(feedback.terminated, false);
+        assert.equal(feedback.missingParameter, null);
+    });
+
+    test('finds rejected values and missing parameters', () => {
+        assert.equal(parseLockFeedback('LOCK_ERROR\n"open" is not the correct unlock command.').error, true);
+        assert.equal(parseLockFeedback('Required unlock parameter digit is missing.').missingParameter, 'digit');
+    });
+
+    test('collects unlocked locks in order', () => {
+        const feedback = parseLockFeedback([
+            'LOCK_UNLOCKED EZ_21',
+            'LOCK_UNLOCKED c001',
+            'Denied access by CORE l0cket lock.',
+        ].join('\n'));
+
+        assert.deepEqual(feedback.unlocked, [ 'EZ_21', 'c001' ]);
+        assert.equal(feedback.lock, 'l0cket');
+    });
+
+    test('recognizes DATA_CHECK questions', () => {
+        const feedback = parseLockFeedback('++++++ is a household cleaning device with a rudimentary networked sentience');
+        assert.equal(feedback.lock, 'DATA_CHECK');
+    });
+
+    test('recognizes a terminated connection', () => {
+        const feedback = parseLockFeedback('LOCK_UNLOCKED EZ_21\nConnection terminated.');
+
+        assert.equal(feedback.lock, null);
+        assert.equal(feedback.terminated, true);
+    });
+});
+
+describe('solvers', () => {
+    test('EZ_21 tries every command', () => {
+        const solver = defaultSolvers.EZ_21();
+        const denied = parseLockFeedback('Denied access by HALPERYON SYSTEMS EZ_21 lock.');
+        const wrong = parseLockFeedback('LOCK_ERROR\n"open" is not the correct unlock command.');
+
+        assert.deepEqual(solver.next(denied, {}), { EZ_21: 'open' });
+        assert.deepEqual(solver.next(wrong, { EZ_21: 'open' }), { EZ_21: 'unlock' });
+        assert.deepEqual(solver.next(wrong, { EZ_21: 'unlock' }), { EZ_21: 'release' });
+        assert.equal(solver.next(wrong, { EZ_21: 'release' }), null);
+    });
+
+    test('EZ_35 moves on to the digit once asked for it', () => {
+        const solver = defaultSolvers.EZ_35();
+        solver.next(parseLockFeedback('Denied access by HALPERYON SYSTEMS EZ_35 lock.'), {});
+
+        const missingDigit = parseLockFeedback('Required unlock parameter digit is missing.');
+        assert.deepEqual(solver.next(missingDigit, { EZ_35: 'open' }), { digit: 0 });
+
+        const wrongDigit = parseLockFeedback('LOCK_ERROR\n0 is not the correct digit.');
+        assert.deepEqual(solver.next(wrongDigit, { EZ_35: 'open', digit: 0 }), { digit: 1 });
+    });
+
+    test('c002 tries the complement color first', () => {
+        const solver = defaultSolvers.c002();
+        const missing = parseLockFeedback('Required unlock parameter c002_complement is missing.');
+
+        assert.deepEqual(solver.next(missing, { c002: 'red' }), { c002_complement: 'green' });
+    });
+
+    test('c001 tries the length of the color name first', () => {
+        const solver = defaultSolvers.c001();
+        const missing = parseLockFeedback('Required unlock parameter color_digit is missing.');
+
+        assert.deepEqual(solver.next(missing, { c001: 'purple' }), { color_digit: 6 });
+    });
+
+    test('DATA_CHECK asks for the questions, then answers all of them', () => {
+        const solver = new DataCheckSolver();
+
+        const denied = parseLockFeedback('Denied access by CORE DATA_CHECK lock.');
+        assert.deepEqual(solver.next(denied), { DATA_CHECK: '' });
+
+        const questions = parseLockFeedback([
+            'a ++++++ is a household cleaning device with a rudimentary networked sentience',
+            'in trust\'s vLAN, you encountered the will of ++++++, the prover',
+        ].join('\n'));
+        assert.deepEqual(solver.next(questions), { DATA_CHECK: 'robovacpetra' });
+        assert.equal(solver.next(questions), null);
+    });
+
+    test('DATA_CHECK gives up on unknown questions', () => {
+        const solver = new DataCheckSolver();
+        assert.equal(solver.next(parseLockFeedback('what is ++++++?')), null);
+    });
+});
+
+describe('Breacher', () => {
+    /** A loc with an EZ_21 and an EZ_35 lock, answering like the game does. */
+    const lockScript = (command: string): string[] => {
+        const argText = command.substring(command.indexOf(' ') + 1);
+        const args = (command.includes(' ') ? ValueParser.parse(argText) : {}) as ScriptArguments;
+
+        if (args.EZ_21 === undefined) return [ 'Denied access by HALPERYON SYSTEMS EZ_21 lock.' ];
+        if (args.EZ_21 !== 'release') return [ 'LOCK_ERROR', `"${args.EZ_21}" is not the correct unlock command.` ];
+
+        const unlocked = [ 'LOCK_UNLOCKED EZ_21' ];
+        if (args.EZ_35 === undefined) return [ ...unlocked, 'Denied access by HALPERYON SYSTEMS EZ_35 lock.' ];
+        if (args.EZ_35 !== 'open') return [ ...unlocked, 'LOCK_ERROR', `"${args.EZ_35}" is not the correct unlock command.` ];
+        if (args.digit === undefined) return [ ...unlocked, 'Required unlock parameter digit is missing.' ];
+        if (args.digit !== 3) return [ ...unlocked, 'LOCK_ERROR', `${args.digit} is not the correct digit.` ];
+
+        return [ ...unlocked, 'LOCK_UNLOCKED EZ_35', 'Connection terminated.' ];
+    };
+
+    test('opens every lock', async () => {
+        const { fake, oog } = await startFakeGame();
+        fake.addScript('victim.loc', lockScript);
+
+        const breach = await new Breacher(oog, 'victim.loc').breach();
+
+        assert.equal(breach.status, BreachStatus.SUCCESS);
+        assert.deepEqual(breach.args, { EZ_21: 'release', EZ_35: 'open', digit: 3 });
+        assert.deepEqual(breach.unlocked, [ 'EZ_21', 'EZ_35' ]);
+    });
+
+    test('stops at locks it has no solver for', async () => {
+        const { fake, oog } = await startFakeGame();
+        fake.addScript('victim.loc', lockScript);
+
+        const breach = await new Breacher(oog, 'victim.loc', { solvers: { EZ_21: defaultSolvers.EZ_21 } }).breach();
+
+        assert.equal(breach.status, BreachStatus.UNKNOWN_LOCK);
+        assert.equal(breach.lock, 'EZ_35');
+    });
+
+    test('stops when out of steps', async () => {
+        const { fake, oog } = await startFakeGame();
+        fake.addScript('victim.loc', lockScript);
+
+        const breach = await new Breacher(oog, 'victim.loc', { maxSteps: 2 }).breach();
+
+        assert.equal(breach.status, BreachStatus.OUT_OF_STEPS);
+        assert.equal(breach.steps, 2);
+    });
+
+    test('fails on targets that don\'t exist', async () => {
+        const { oog } = await startFakeGame();
+
+        const breach = await new Breacher(oog, 'nobody.loc').breach();
+
+        assert.equal(breach.status, BreachStatus.FAILURE);
+        assert.equal(breach.steps, 1);
+    });
+
+    test('fails on output that isn\'t a lock', async () => {
+        const { fake, oog } = await startFakeGame();
+        fake.addScript('some.script', () => [ 'hello' ]);
+
+        const breach = await new Breacher(oog, 'some.script').breach();
+
+        assert.equal(breach.status, BreachStatus.FAILURE);
+    });
+});
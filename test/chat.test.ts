@@ -0,0 +1,65 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Chat, ChatMessage, ChatMessageType } from '../src/chat.js';
+import { startFakeGame } from './fakeGame.js';
+
+describe('Chat.parseLine', () => {
+    test('parses channel messages', () => {
+        const line = '1927 0000 <color=#FF8000FF>some_user</color> :::hi <color=#FF0000FF>there</color>:::';
+
+        assert.deepEqual(Chat.parseLine(line), {
+            type: ChatMessageType.CHANNEL,
+            timestamp: '1927',
+            channel: '0000',
+            user: 'some_user',
+            text: 'hi there',
+        });
+    });
+
+    test('parses tells in both directions', () => {
+        assert.deepEqual(Chat.parseLine('1927 from bob :::psst:::'), {
+            type: ChatMessageType.TELL_FROM,
+            timestamp: '1927',
+            user: 'bob',
+            text: 'psst',
+        });
+        assert.equal(Chat.parseLine('1927 to bob :::psst:::')?.type, ChatMessageType.TELL_TO);
+    });
+
+    test('ignores everything else', () => {
+        assert.equal(Chat.parseLine('Success'), null);
+        assert.equal(Chat.parseLine('1927 0000 Not_A_Name :::hi:::'), null);
+        assert.equal(Chat.parseLine('1927 0000 bob :::unterminated'), null);
+    });
+});
+
+describe('Chat', () => {
+    test('sends messages and tells via chats scripts', async () => {
+        const { fake, oog } = await startFakeGame();
+        fake.addScript('chats.send', () => ({ success: true, lines: [] }));
+        fake.addScript('chats.tell', () => ({ success: true, lines: [] }));
+
+        await oog.chat.send('0000', 'hi "all"');
+        await oog.chat.tell('bob', 'psst');
+
+        assert.deepEqual(fake.commands.filter(command => command.startsWith('chats.')), [
+            'chats.send { channel: "0000", msg: "hi \\"all\\"" }',
+            'chats.tell { to: "bob", msg: "psst" }',
+        ]);
+        await assert.rejects(oog.chat.tell('not a user', 'hi'), /Invalid user name/);
+    });
+
+    test('hears messages that show up in the shell', async () => {
+        const { fake, oog } = await startFakeGame();
+        fake.addScript('test.noop', () => []);
+
+        const messages: ChatMessage[] = [];
+        const unsubscribe = oog.chat.onMessage(message => messages.push(message));
+
+        fake.print('1927 0000 bob :::hello:::', 'not a message');
+        await oog.run('test.noop');
+        unsubscribe();
+
+        assert.deepEqual(messages.map(message => message.text), [ 'hello' ]);
+    });
+});
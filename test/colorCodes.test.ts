@@ -0,0 +1,65 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ColorCodeBuilder, colorize, toColorLetter } from '../src/terminal/color_codes.js';
+import { ColorCodeConverter } from '../src/terminal/color_code_converter.js';
+
+describe('toColorLetter', () => {
+    test('accepts color letters', () => {
+        assert.equal(toColorLetter('D'), 'D');
+        assert.equal(toColorLetter('5'), '5');
+    });
+
+    test('maps hex colors to the closest letter', () => {
+        assert.equal(toColorLetter('#FF0000'), 'D');
+        assert.equal(toColorLetter('fe0101ff'), 'D');
+        assert.equal(toColorLetter('#FFFFFF'), '1');
+    });
+
+    test('rejects anything else', () => {
+        assert.throws(() => toColorLetter('9'), /Unknown color code: 9/);
+        assert.throws(() => toColorLetter('red'), /Unknown color: red/);
+    });
+});
+
+describe('colorize', () => {
+    test('colors every line on its own', () => {
+        assert.equal(colorize('D', 'a\n\nb'), '`Da`\n\n`Db`');
+    });
+});
+
+describe('ColorCodeBuilder', () => {
+    test('builds color-coded strings', () => {
+        const message = new ColorCodeBuilder()
+            .color('L', 'online')
+            .text(' since ')
+            .color('#FF8000', '12:00')
+            .build();
+
+        assert.equal(message, '`Lonline` since `512:00`');
+    });
+
+    test('rejects colored text with backticks', () => {
+        assert.throws(() => new ColorCodeBuilder().color('D', 'a`b'), /can't contain backticks/);
+    });
+});
+
+describe('ColorCodeConverter', () => {
+    test('converts color tags to color codes', () => {
+        assert.equal(
+            ColorCodeConverter.convertFromShellText('a <color=#FF0000FF>b\nc</color> d'),
+            'a `Db`\n`Dc` d',
+        );
+    });
+
+    test('uses the innermost color', () => {
+        assert.equal(
+            ColorCodeConverter.convertFromShellText('<color=#FF0000FF>a<color=#1EFF00FF>b</color>c</color>'),
+            '`Da``2b``Dc`',
+        );
+    });
+
+    test('rejects colored text with backticks, but not uncolored text', () => {
+        assert.throws(() => ColorCodeConverter.convertFromShellText('<color=#FF0000FF>a\xabb</color>'), /can't contain backticks/);
+        assert.equal(ColorCodeConverter.convertFromShellText('a\xabb'), 'a`b');
+    });
+});
@@ -0,0 +1,113 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CommandPriority, CommandQueue } from '../src/commandQueue.js';
+import { waitMs } from '../src/utils.js';
+
+describe('CommandQueue', () => {
+    test('runs one task at a time', async () => {
+        const queue = new CommandQueue();
+        let running = 0;
+        let maxRunning = 0;
+
+        const task = async () => {
+            maxRunning = Math.max(maxRunning, ++running);
+            await waitMs(5);
+            running--;
+        };
+
+        await Promise.all([ 1, 2, 3 ].map(i => queue.enqueue(`task ${i}`, CommandPriority.NORMAL, task)));
+
+        assert.equal(maxRunning, 1);
+        assert.equal(queue.getActive(), null);
+    });
+
+    test('runs higher priorities first, and in order of arrival within a priority', async () => {
+        const queue = new CommandQueue();
+        const order: string[] = [];
+        const track = (name: string) => async () => {
+            order.push(name);
+        };
+
+        // Keeps the queue busy, so everything else is waiting when it's queued.
+        const blocker = queue.enqueue('blocker', CommandPriority.NORMAL, () => waitMs(10));
+        const tasks = [
+            queue.enqueue('low', CommandPriority.LOW, track('low')),
+            queue.enqueue('normal 1', CommandPriority.NORMAL, track('normal 1')),
+            queue.enqueue('high', CommandPriority.HIGH, track('high')),
+            queue.enqueue('normal 2', CommandPriority.NORMAL, track('normal 2')),
+        ];
+
+        assert.equal(queue.getActive()?.description, 'blocker');
+        assert.deepEqual(queue.getPending().map(command => command.description), [ 'high', 'normal 1', 'normal 2', 'low' ]);
+        assert.equal(queue.getDepth(), 4);
+
+        await Promise.all([ blocker, ...tasks ]);
+        assert.deepEqual(order, [ 'high', 'normal 1', 'normal 2', 'low' ]);
+    });
+
+    test('keeps going after a task fails', async () => {
+        const queue = new CommandQueue();
+
+        const failing = queue.enqueue('failing', CommandPriority.NORMAL, async () => {
+            throw new Error('task failed');
+        });
+        const next = queue.enqueue('next', CommandPriority.NORMAL, async () => 42);
+
+        await assert.rejects(failing, /task failed/);
+        assert.equal(await next, 42);
+    });
+
+    test('drops aborted tasks before they start', async () => {
+        const queue = new CommandQueue();
+        const controller = new AbortController();
+        let ran = false;
+
+        const blocker = queue.enqueue('blocker', CommandPriority.NORMAL, () => waitMs(10));
+        const aborted = queue.enqueue('aborted', CommandPriority.NORMAL, async () => {
+            ran = true;
+        }, controller.signal);
+
+        controller.abort(new Error('not needed anymore'));
+
+        await assert.rejects(aborted, /not needed anymore/);
+        assert.equal(queue.getDepth(), 0);
+
+        await blocker;
+        assert.equal(ran, false);
+    });
+
+    test('rejects right away if the signal was already aborted', async () => {
+        const queue = new CommandQueue();
+
+        await assert.rejects(queue.enqueue('aborted', CommandPriority.NORMAL, async () => {}, AbortSignal.abort()));
+        assert.equal(queue.getActive(), null);
+    });
+
+    test('holds the queue for exclusive blocks, except for the tasks they queue', async () => {
+        const queue = new CommandQueue();
+        const order: string[] = [];
+        const track = (name: string) => async () => {
+            order.push(name);
+        };
+
+        const exclusive = queue.exclusive('block', CommandPriority.NORMAL, async () => {
+            await queue.enqueue('inside 1', CommandPriority.NORMAL, track('inside 1'));
+            await waitMs(10);
+            await queue.enqueue('inside 2', CommandPriority.LOW, track('inside 2'));
+        });
+        const outside = queue.enqueue('outside', CommandPriority.HIGH, track('outside'));
+
+        await Promise.all([ exclusive, outside ]);
+        assert.deepEqual(order, [ 'inside 1', 'inside 2', 'outside' ]);
+    });
+
+    test('nests exclusive blocks', async () => {
+        const queue = new CommandQueue();
+
+        const result = await queue.exclusive('outer', CommandPriority.NORMAL, () =>
+            queue.exclusive('inner', CommandPriority.NORMAL, () =>
+                queue.enqueue('task', CommandPriority.NORMAL, async () => 42)));
+
+        assert.equal(result, 42);
+    });
+});
@@ -0,0 +1,39 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DiscordConverter } from '../src/terminal/discord_converter.js';
+
+describe('DiscordConverter', () => {
+    test('wraps the output in an ansi code block, using the closest colors', () => {
+        assert.deepEqual(
+            DiscordConverter.convertFromShellText('a<color=#FF0000FF>b</color>'),
+            [ '```ansi\n\x1b[34ma\x1b[31mb\n```' ],
+        );
+    });
+
+    test('splits between lines, picking the color back up', () => {
+        const messages = DiscordConverter.convertFromShellText('<color=#FF0000FF>aaaa\nbbbb</color>', {
+            maxMessageLength: 24,
+        });
+
+        assert.deepEqual(messages, [
+            '```ansi\n\x1b[31maaaa\n```',
+            '```ansi\n\x1b[31mbbbb\n```',
+        ]);
+    });
+
+    test('splits lines that don\'t fit into a message on their own', () => {
+        const messages = DiscordConverter.convertFromShellText('abcdefgh', { maxMessageLength: 22 });
+
+        assert.ok(messages.every(message => message.length <= 22), JSON.stringify(messages));
+        assert.equal(messages.map(message => message.slice(13, -4)).join(''), 'abcdefgh');
+    });
+
+    test('keeps three backticks from ending the code block', () => {
+        const [ message ] = DiscordConverter.convertFromShellText('\xab\xab\xab');
+        assert.equal(message.match(/```/g)?.length, 2);
+    });
+
+    test('rejects message lengths that fit nothing', () => {
+        assert.throws(() => new DiscordConverter({ maxMessageLength: 10 }), /too short/);
+    });
+});
@@ -0,0 +1,52 @@
+import { afterEach } from 'node:test';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join as joinPath } from 'node:path';
+import { FakeHackmud, FakeHackmudOptions } from '../src/drivers/fake_hackmud.js';
+import { InputDriver } from '../src/drivers/types.js';
+import { HmOog, HmOogOptions } from '../src/handling.js';
+import { ConsoleLogger, LogLevel } from '../src/logger.js';
+
+/** Timing that keeps tests fast, since the fake game answers right away. */
+export const fastTiming = {
+    keystrokeDelay: 1,
+    preCommandDelay: 1,
+    postCommandDelay: 1,
+    flushPollInterval: 5,
+    flushTimeout: 1000,
+    hardlineExitDelay: 1,
+};
+
+const startedGames: HmOog[] = [];
+
+// Every test file importing this closes its games after each test, so nothing keeps the process alive.
+afterEach(() => {
+    for (const oog of startedGames.splice(0)) oog.close();
+});
+
+/**
+ * Creates a fake game with its own shell.txt, and an initialized HmOog driving it.
+ * It's closed again once the test is over.
+ * @param options Options for HmOog
+ * @param wrapDriver Changes how input gets to the fake game, e.g. to lose some of it
+ */
+export const startFakeGame = async (
+    fakeOptions?: Partial<FakeHackmudOptions>,
+    options?: Partial<HmOogOptions>,
+    wrapDriver: (fake: FakeHackmud) => InputDriver = fake => fake,
+): Promise<{ fake: FakeHackmud, oog: HmOog }> => {
+    const shellPath = joinPath(mkdtempSync(joinPath(tmpdir(), 'hmoog-')), 'shell.txt');
+    const fake = new FakeHackmud(shellPath, fakeOptions);
+
+    const oog = new HmOog({
+        shellPath,
+        driver: wrapDriver(fake),
+        timing: fastTiming,
+        logger: new ConsoleLogger(LogLevel.SILENT),
+        ...options,
+    });
+    startedGames.push(oog);
+    await oog.init();
+
+    return { fake, oog };
+};
@@ -0,0 +1,45 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatGC, parseGC } from '../src/gc.js';
+
+describe('parseGC', () => {
+    test('parses every unit', () => {
+        assert.equal(parseGC('1Q23T400B5M6K789GC'), 1_023_400_005_006_789n);
+        assert.equal(parseGC('789GC'), 789n);
+        assert.equal(parseGC('5M'), 5_000_000n);
+    });
+
+    test('ignores color tags and surrounding whitespace', () => {
+        assert.equal(parseGC('  <color=#FFF404FF>1K</color>500GC\n'), 1500n);
+    });
+
+    test('parses negative amounts', () => {
+        assert.equal(parseGC('-1K1GC'), -1001n);
+    });
+
+    test('rejects malformed amounts', () => {
+        for (const amount of [ '', 'GC', '1K2M', '1KK', '12X', '1.5K' ]) {
+            assert.throws(() => parseGC(amount), /Invalid GC amount/, amount);
+        }
+    });
+});
+
+describe('formatGC', () => {
+    test('formats like hackmud', () => {
+        assert.equal(formatGC(0n), '0GC');
+        assert.equal(formatGC(1500n), '1K500GC');
+        assert.equal(formatGC(1_000_000n), '1MGC');
+        assert.equal(formatGC(-1001n), '-1K1GC');
+    });
+
+    test('keeps amounts beyond the largest unit in it', () => {
+        assert.equal(formatGC(1234n * 1000n ** 5n), '1234QGC');
+    });
+
+    test('round trips through parseGC', () => {
+        const amounts = [ 0n, 1n, 999n, 1000n, 1001n, 32_000_000_005n, 1234n * 1000n ** 5n + 7n, -45_000n ];
+        for (const amount of amounts) {
+            assert.equal(parseGC(formatGC(amount)), amount);
+        }
+    });
+});
@@ -0,0 +1,202 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Console } from 'node:console';
+import { Writable } from 'node:stream';
+import { FakeHackmud } from '../src/drivers/fake_hackmud.js';
+import { InputDriver } from '../src/drivers/types.js';
+import { OogCommandNotEchoedError, OogScriptFailureError, OogTimeoutError } from '../src/errors.js';
+import { HardlineState } from '../src/hardline.js';
+import { ConsoleLogger, LogLevel } from '../src/logger.js';
+import { waitMs } from '../src/utils.js';
+import { fastTiming, startFakeGame } from './fakeGame.js';
+
+/**
+ * Wraps the fake game, swallowing the first few `flush`es. Everything typed before them
+ * still shows up in shell.txt if `writeShell` is set, just without the flush message.
+ */
+const losingFlushes = (fake: FakeHackmud, count: number, writeShell: boolean): InputDriver => ({
+    init: () => fake.init(),
+    sendKeystrokes: (keys: string) => {
+        if (keys !== 'flush\n' || count-- <= 0) return fake.sendKeystrokes(keys);
+
+        if (writeShell) fake.autoFlush();
+        return true;
+    },
+    sendEscape: () => fake.sendEscape(),
+    sendMouseClick: (x: number, y: number, rightClick: boolean) => fake.sendMouseClick(x, y, rightClick),
+});
+
+describe('HmOog.run', () => {
+    test('returns the output of the command', async () => {
+        const { fake, oog } = await startFakeGame();
+        fake.addScript('test.greet', () => ({ success: true, lines: [ '<color=#FF0000FF>hi</color> there' ] }));
+
+        const result = await oog.run('test.greet');
+
+        assert.equal(result?.success, true);
+        assert.deepEqual(result?.uncolored.lines, [ 'Success', 'hi there' ]);
+        assert.equal(result?.colored.command, '<color=#FFFFFFFF>>>test.greet</color>');
+        assert.deepEqual(fake.commands.filter(command => command === 'test.greet'), [ 'test.greet' ]);
+    });
+
+    test('parses structured output', async () => {
+        const { fake, oog } = await startFakeGame();
+        fake.addScript('test.obj', () => [ '{', '  a: 1,', '  b: [ "x" ]', '}' ]);
+
+        const result = await oog.run('test.obj');
+
+        assert.deepEqual(result?.parsed, { a: 1, b: [ 'x' ] });
+    });
+
+    test('reports scripts that fail', async () => {
+        const { oog } = await startFakeGame();
+
+        const result = await oog.run('nobody.here');
+        assert.equal(result?.success, false);
+        assert.deepEqual(result?.uncolored.lines, [ 'Failure', 'script doesn\'t exist' ]);
+
+        await assert.rejects(oog.run('nobody.here', { throwOnFailure: true }), OogScriptFailureError);
+    });
+
+    test('still takes the timeout and retry positionally', async () => {
+        const { oog } = await startFakeGame({}, {}, fake => losingFlushes(fake, Infinity, false));
+
+        assert.equal(await oog.run('test.slow', 200, false), null);
+        await assert.rejects(oog.run('test.slow', 'fast' as never), /Expected the run options to be an object/);
+    });
+
+    test('reads output longer than the line buffer, and only runs the command once', async () => {
+        const { fake, oog } = await startFakeGame({}, { maxBufferedLines: 100 });
+
+        let runs = 0;
+        fake.addScript('test.long', () => {
+            runs++;
+            return Array.from({ length: 250 }, (_, i) => `line ${i}`);
+        });
+
+        const result = await oog.run('test.long', { timeout: 5000 });
+
+        assert.equal(runs, 1);
+        assert.equal(result?.uncolored.lines.length, 250);
+        assert.equal(result?.uncolored.lines[0], 'line 0');
+        assert.equal(result?.uncolored.lines[249], 'line 249');
+    });
+
+    test('doesn\'t send a command again once it was echoed', async () => {
+        const { fake, oog } = await startFakeGame({}, {}, fake => losingFlushes(fake, 2, true));
+
+        let runs = 0;
+        fake.addScript('test.once', () => {
+            runs++;
+            return [ 'done' ];
+        });
+
+        const result = await oog.run('test.once');
+
+        assert.equal(runs, 1);
+        assert.deepEqual(result?.uncolored.lines, [ 'done' ]);
+    });
+
+    test('logs retries and waiting at the debug level only', async () => {
+        const messages: string[] = [];
+        const logger = new ConsoleLogger(LogLevel.INFO, new Console(new Writable({
+            write: (chunk, _encoding, callback) => {
+                messages.push(chunk.toString());
+                callback();
+            },
+        })));
+
+        const { fake, oog } = await startFakeGame({}, { logger }, fake => losingFlushes(fake, 2, true));
+        fake.addScript('test.once', () => [ 'done' ]);
+
+        await oog.run('test.once');
+
+        assert.deepEqual(messages, []);
+    });
+
+    test('times out if the shell never answers', async () => {
+        const { oog } = await startFakeGame({}, {}, fake => losingFlushes(fake, Infinity, false));
+
+        await assert.rejects(oog.run('test.slow', { timeout: 200, throwOnFailure: true }), OogTimeoutError);
+        assert.equal(await oog.run('test.slow', { timeout: 200 }), null);
+    });
+
+    test('tells if the command never showed up without retrying', async () => {
+        const { oog } = await startFakeGame({}, { timing: { ...fastTiming, flushTimeout: 200 } },
+            fake => losingFlushes(fake, Infinity, false));
+
+        await assert.rejects(oog.run('test.lost', { retry: false, throwOnFailure: true }), OogCommandNotEchoedError);
+    });
+});
+
+describe('HmOog hardline', () => {
+    test('enters and exits the hardline', async () => {
+        const { fake, oog } = await startFakeGame({ hardlineActivationLines: 3 });
+
+        const status = await oog.enterHardline();
+        assert.equal(status.state, HardlineState.ACTIVE);
+        assert.equal(oog.isInHardline(), true);
+        assert.equal(fake.isHardlineActive(), true);
+
+        assert.equal(await oog.exitHardline(), true);
+        assert.equal(oog.isInHardline(), false);
+        assert.equal(fake.isHardlineActive(), false);
+    });
+
+    test('reports the cooldown if no hardline is available', async () => {
+        const { fake, oog } = await startFakeGame();
+        fake.setHardlineCooldown(42);
+
+        const status = await oog.enterHardline();
+        assert.equal(status.state, HardlineState.NONE_AVAILABLE);
+        assert.equal(oog.isInHardline(), false);
+    });
+
+    test('keeps the hardline per user', async () => {
+        const { oog } = await startFakeGame({ users: [ 'main', 'alt' ], hardlineActivationLines: 3 });
+        assert.equal(await oog.switchUser('main'), true);
+
+        await oog.enterHardline();
+        const altInHardline = await oog.withUser('alt', async () => oog.isInHardline());
+
+        assert.equal(altInHardline, false);
+        assert.equal(oog.currentUser, 'main');
+        assert.equal(oog.isInHardline(), true);
+    });
+});
+
+describe('HmOog.withUser', () => {
+    test('switches back and keeps the error of a failed block', async () => {
+        const { oog } = await startFakeGame({ users: [ 'main', 'alt' ] });
+        await oog.switchUser('main');
+
+        await assert.rejects(oog.withUser('alt', async () => {
+            throw new Error('block failed');
+        }), /block failed/);
+        assert.equal(oog.currentUser, 'main');
+    });
+
+    test('runs only the block\'s commands as the other user', async () => {
+        const { fake, oog } = await startFakeGame({ users: [ 'main', 'alt' ] });
+        fake.addScript('test.whoami', () => [ fake.getCurrentUser()! ]);
+        await oog.switchUser('main');
+
+        const inside = oog.withUser('alt', async () => {
+            await waitMs(20);
+            return oog.run('test.whoami');
+        });
+        const outside = oog.run('test.whoami');
+
+        assert.deepEqual((await inside)?.uncolored.lines, [ 'alt' ]);
+        assert.deepEqual((await outside)?.uncolored.lines, [ 'main' ]);
+    });
+
+    test('refuses to run the block as a user that doesn\'t exist', async () => {
+        const { oog } = await startFakeGame({ users: [ 'main' ] });
+        await oog.switchUser('main');
+
+        let ran = false;
+        await assert.rejects(oog.withUser('ghost', async () => ran = true), /Couldn't switch to user ghost!/);
+        assert.equal(ran, false);
+    });
+});
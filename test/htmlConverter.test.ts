@@ -0,0 +1,39 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HtmlColorMode, HtmlConverter } from '../src/terminal/html_converter.js';
+
+describe('HtmlConverter', () => {
+    test('colors text with inline styles', () => {
+        assert.equal(
+            HtmlConverter.convertFromShellText('a<color=#FF000080>b<color=#00FF00FF>c</color></color>'),
+            'a<span style="color:#FF000080">b<span style="color:#00FF00">c</span></span>',
+        );
+    });
+
+    test('colors text with classes', () => {
+        assert.equal(
+            HtmlConverter.convertFromShellText('<color=#FF0000FF>b</color>', { colorMode: HtmlColorMode.CLASS, classPrefix: 'x-' }),
+            '<span class="x-FF0000FF">b</span>',
+        );
+    });
+
+    test('escapes text', () => {
+        assert.equal(HtmlConverter.convertFromShellText('È/script\' onload="&"É'), '&lt;/script&#39; onload=&quot;&amp;&quot;&gt;');
+    });
+
+    test('replaces corruption characters unless told not to', () => {
+        assert.equal(HtmlConverter.convertFromShellText('a\xa1b'), 'a█b');
+        assert.equal(HtmlConverter.convertFromShellText('a\xa1b', { replaceCorruption: false }), 'a\xa1b');
+    });
+
+    test('closes and reopens spans at line breaks', () => {
+        assert.equal(
+            HtmlConverter.convertFromShellText('<color=#FF0000FF>a\nb</color>'),
+            '<span style="color:#FF0000">a</span>\n<span style="color:#FF0000">b</span>',
+        );
+    });
+
+    test('wraps the output in a pre with the default color', () => {
+        assert.equal(HtmlConverter.convertFromShellText('a', { wrapInPre: true }), '<pre style="color:#7AB2F4">a</pre>');
+    });
+});
@@ -0,0 +1,17 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MarkdownConverter } from '../src/terminal/markdown_converter.js';
+
+describe('MarkdownConverter', () => {
+    test('drops colors', () => {
+        assert.equal(MarkdownConverter.convertFromShellText('a<color=#FF0000FF>b</color>'), 'ab');
+    });
+
+    test('escapes formatting', () => {
+        assert.equal(MarkdownConverter.convertFromShellText('*a* _b_ [c](d) \xabe\xab'), '\\*a\\* \\_b\\_ \\[c\\]\\(d\\) \\`e\\`');
+    });
+
+    test('escapes line starts only at the start of lines', () => {
+        assert.equal(MarkdownConverter.convertFromShellText('# a - b\n  - c\n1. d'), '\\# a - b\n  \\- c\n1\\. d');
+    });
+});
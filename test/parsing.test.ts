@@ -0,0 +1,74 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ShellParser } from '../src/terminal/parsing.js';
+import { Node, NodeType } from '../src/terminal/types.js';
+
+/** Reduces nodes to their text, with colors as `[hex:...]`, to keep expectations short. */
+const flatten = (nodes: Node[]): string => nodes
+    .map(node => node.type === NodeType.TEXT ? node.text : `[${node.colorHex}:${flatten(node.children)}]`)
+    .join('');
+
+describe('ShellParser', () => {
+    test('parses nested color tags', () => {
+        const nodes = ShellParser.parse('a<color=#FF0000FF>b<color=#00FF00FF>c</color>d</color>e');
+        assert.equal(flatten(nodes), 'a[FF0000FF:b[00FF00FF:c]d]e');
+    });
+
+    test('records source offsets', () => {
+        const [ text, color ] = ShellParser.parse('ab<color=#FF0000FF>c</color>');
+        assert.deepEqual([ text.start, text.end ], [ 0, 2 ]);
+        assert.deepEqual([ color.start, color.end ], [ 2, 28 ]);
+    });
+
+    test('replaces encoded characters', () => {
+        assert.equal(flatten(ShellParser.parse('ÈbÉ \xab')), '<b> `');
+    });
+
+    test('throws on unknown tags by default', () => {
+        assert.throws(() => ShellParser.parse('a <b> c'), /Unknown tag: b/);
+        assert.throws(() => ShellParser.parse('a</color>'), /Dangling end tag! color/);
+        assert.throws(() => ShellParser.parse('<color=#FF0000FF>a'), /Expected <\/color>, but got EOF!/);
+    });
+
+    describe('lenient', () => {
+        test('keeps unknown tags as text', () => {
+            const parser = new ShellParser('a <b> c', { lenient: true });
+
+            const nodes = parser.parseAll();
+            assert.equal(nodes.length, 1);
+            assert.equal(flatten(nodes), 'a <b> c');
+            assert.deepEqual(parser.getDiagnostics(), [ { message: 'Unknown tag: b', start: 2, end: 5 } ]);
+        });
+
+        test('keeps dangling end tags as text', () => {
+            const parser = new ShellParser('<color=#FF0000FF>a</b></color></i>', { lenient: true });
+
+            assert.equal(flatten(parser.parseAll()), '[FF0000FF:a</b>]</i>');
+            assert.deepEqual(parser.getDiagnostics(), [
+                { message: 'Dangling end tag! b', start: 18, end: 22 },
+                { message: 'Dangling end tag! i', start: 30, end: 34 },
+            ]);
+        });
+
+        test('closes colors that are still open at the end', () => {
+            const parser = new ShellParser('x<color=#FF0000FF>a', { lenient: true });
+
+            assert.equal(flatten(parser.parseAll()), 'x[FF0000FF:a]');
+            assert.deepEqual(parser.getDiagnostics(), [ { message: 'Expected </color>, but got EOF!', start: 1, end: 19 } ]);
+        });
+
+        test('reports tags that never close', () => {
+            const parser = new ShellParser('a <b', { lenient: true });
+
+            assert.equal(flatten(parser.parseAll()), 'a <b');
+            assert.deepEqual(parser.getDiagnostics(), [ { message: 'Unknown tag: b', start: 2, end: 4 } ]);
+        });
+
+        test('has no diagnostics for valid input', () => {
+            const parser = new ShellParser('<color=#FF0000FF>fine</color>', { lenient: true });
+            parser.parseAll();
+
+            assert.deepEqual(parser.getDiagnostics(), []);
+        });
+    });
+});
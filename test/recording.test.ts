@@ -0,0 +1,80 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join as joinPath } from 'node:path';
+import { HmOog } from '../src/handling.js';
+import { ConsoleLogger, LogLevel } from '../src/logger.js';
+import { SessionRecorder } from '../src/recording/recorder.js';
+import { ReplayDriver } from '../src/recording/replay.js';
+import { fastTiming, startFakeGame } from './fakeGame.js';
+
+/** Records switching to `secret_user` and greeting them, with that name redacted. */
+const recordSession = async (sessionPath: string) => {
+    let recorder: SessionRecorder;
+    const { fake, oog } = await startFakeGame({ users: [ 'secret_user' ] }, {
+        // Gives the recorder time to see the output before the next command goes out.
+        timing: { ...fastTiming, preCommandDelay: 50 },
+    }, fake => {
+        recorder = new SessionRecorder(sessionPath, fake.shellPath, { redactUsers: [ 'secret_user' ] });
+        recorder.start();
+        return recorder.wrap(fake);
+    });
+    fake.addScript('test.greet', () => [ `hello ${fake.getCurrentUser()}` ]);
+
+    assert.equal(await oog.switchUser('secret_user'), true);
+    assert.deepEqual((await oog.run('test.greet'))?.uncolored.lines, [ 'hello secret_user' ]);
+
+    recorder!.stop();
+};
+
+describe('SessionRecorder and ReplayDriver', () => {
+    test('replays a recorded session without the game', async () => {
+        const directory = mkdtempSync(joinPath(tmpdir(), 'hmoog-'));
+        const sessionPath = joinPath(directory, 'session.jsonl');
+        await recordSession(sessionPath);
+
+        assert.equal(readFileSync(sessionPath, { encoding: 'utf-8' }).includes('secret_user'), false);
+
+        const replay = await ReplayDriver.fromFile(sessionPath, joinPath(directory, 'shell.txt'), { users: [ 'alice' ] });
+        const oog = new HmOog({
+            shellPath: joinPath(directory, 'shell.txt'),
+            driver: replay,
+            timing: fastTiming,
+            logger: new ConsoleLogger(LogLevel.SILENT),
+        });
+
+        try {
+            await oog.init();
+
+            assert.equal(await oog.switchUser('alice'), true);
+            assert.deepEqual((await oog.run('test.greet'))?.uncolored.lines, [ 'hello alice' ]);
+            assert.equal(replay.isFinished(), true);
+        } finally {
+            oog.close();
+        }
+    });
+
+    test('needs the placeholders as input without names for them', async () => {
+        const directory = mkdtempSync(joinPath(tmpdir(), 'hmoog-'));
+        const sessionPath = joinPath(directory, 'session.jsonl');
+        await recordSession(sessionPath);
+
+        const replay = await ReplayDriver.fromFile(sessionPath, joinPath(directory, 'shell.txt'));
+        const oog = new HmOog({
+            shellPath: joinPath(directory, 'shell.txt'),
+            driver: replay,
+            timing: fastTiming,
+            logger: new ConsoleLogger(LogLevel.SILENT),
+        });
+
+        try {
+            await oog.init();
+
+            assert.equal(await oog.switchUser('user_1'), true);
+            assert.deepEqual((await oog.run('test.greet'))?.uncolored.lines, [ 'hello user_1' ]);
+        } finally {
+            oog.close();
+        }
+    });
+});
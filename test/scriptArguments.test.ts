@@ -0,0 +1,63 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { makeScriptCall, scriptor, serializeArgument } from '../src/scriptArguments.js';
+import { startFakeGame } from './fakeGame.js';
+
+describe('serializeArgument', () => {
+    test('serializes primitives', () => {
+        assert.equal(serializeArgument('hi "there"'), '"hi \\"there\\""');
+        assert.equal(serializeArgument(-1.5), '-1.5');
+        assert.equal(serializeArgument(true), 'true');
+        assert.equal(serializeArgument(null), 'null');
+    });
+
+    test('leaves identifier keys unquoted', () => {
+        assert.equal(serializeArgument({ to: 'bob', 'two words': 1, $ok: 2 }), '{ to: "bob", "two words": 1, $ok: 2 }');
+    });
+
+    test('serializes nested values and scriptors', () => {
+        assert.equal(
+            serializeArgument({ target: scriptor('some_user.loc'), list: [ 1, [ 'a' ], {} ] }),
+            '{ target: #s.some_user.loc, list: [1, ["a"], {}] }',
+        );
+    });
+
+    test('leaves out undefined properties', () => {
+        assert.equal(serializeArgument({ a: undefined, b: 1 }), '{ b: 1 }');
+    });
+
+    test('passes angled brackets and the characters hackmud shows them as through as they are', () => {
+        assert.equal(serializeArgument('È<>É'), '"È<>É"');
+    });
+
+    test('rejects values hackmud has no syntax for', () => {
+        assert.throws(() => serializeArgument(Infinity), /Can't pass Infinity/);
+        assert.throws(() => serializeArgument(NaN), /Can't pass NaN/);
+    });
+});
+
+describe('makeScriptCall', () => {
+    test('builds commands with and without arguments', () => {
+        assert.equal(makeScriptCall('kernel.hardline', { dc: true }), 'kernel.hardline { dc: true }');
+        assert.equal(makeScriptCall('accts.balance'), 'accts.balance');
+        assert.equal(makeScriptCall('scripts.get_level', {}), 'scripts.get_level {}');
+    });
+
+    test('rejects invalid script names', () => {
+        assert.throws(() => makeScriptCall('balance'), /Invalid script name: balance/);
+        assert.throws(() => makeScriptCall('a.b; rm'), /Invalid script name/);
+        assert.throws(() => scriptor('Upper.case'), /Invalid script name/);
+    });
+});
+
+describe('HmOog.call', () => {
+    test('finds the output of calls with angled brackets in their arguments', async () => {
+        const { fake, oog } = await startFakeGame();
+        fake.addScript('test.echo', () => [ 'done' ]);
+
+        const result = await oog.call('test.echo', { msg: '<b>È' });
+
+        assert.deepEqual(result?.uncolored.lines, [ 'done' ]);
+        assert.deepEqual(fake.commands.filter(command => command.startsWith('test.echo')), [ 'test.echo { msg: "<b>È" }' ]);
+    });
+});
@@ -0,0 +1,92 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join as joinPath } from 'node:path';
+import { makeUploadCommand, ScriptSync, UploadOutcome, UploadStatus } from '../src/scripts.js';
+import { ColorDepth } from '../src/terminal/colors.js';
+import { waitMs } from '../src/utils.js';
+import { startFakeGame } from './fakeGame.js';
+
+describe('makeUploadCommand', () => {
+    test('builds #up commands', () => {
+        assert.equal(makeUploadCommand('my_script', { visibility: 'private', shift: false }), '#up my_script');
+        assert.equal(makeUploadCommand('my_script', { visibility: 'public', shift: true }), '#up my_script public shift');
+    });
+
+    test('rejects invalid script names', () => {
+        assert.throws(() => makeUploadCommand('a; b', { visibility: 'private', shift: false }), /Invalid script name/);
+    });
+});
+
+describe('HmOog.uploadScript', () => {
+    test('reports the character count of uploaded scripts', async () => {
+        const { fake, oog } = await startFakeGame();
+        fake.addScript('#up', () => ({ success: true, lines: [ 'Uploaded my_script', '1234 chars' ] }));
+
+        const outcome = await oog.uploadScript('my_script', { visibility: 'public' });
+
+        assert.equal(outcome.status, UploadStatus.SUCCESS);
+        assert.equal(outcome.characters, 1234);
+        assert.ok(fake.commands.includes('#up my_script public'));
+    });
+
+    test('recognizes syntax errors', async () => {
+        const { fake, oog } = await startFakeGame();
+        fake.addScript('#up', () => ({ success: false, lines: [ '  SyntaxError: unexpected token (3:4)' ] }));
+
+        const outcome = await oog.uploadScript('my_script');
+
+        assert.equal(outcome.status, UploadStatus.SYNTAX_ERROR);
+        assert.equal(outcome.message, 'SyntaxError: unexpected token (3:4)');
+    });
+
+    test('reports other failures with their message', async () => {
+        const { fake, oog } = await startFakeGame();
+        fake.addScript('#up', () => ({ success: false, lines: [ 'script not found' ] }));
+
+        const outcome = await oog.uploadScript('my_script');
+
+        assert.equal(outcome.status, UploadStatus.FAILURE);
+        assert.equal(outcome.message, 'script not found');
+    });
+});
+
+describe('ScriptSync', () => {
+    test('uploads changed scripts once and reports the outcome', async () => {
+        const directory = mkdtempSync(joinPath(tmpdir(), 'hmoog-'));
+        const uploads: string[] = [];
+        const reports: string[] = [];
+
+        const oog = {
+            uploadScript: async (name: string): Promise<UploadOutcome> => {
+                uploads.push(name);
+                return { status: UploadStatus.FAILURE, message: 'bad <thing>', result: null! };
+            },
+        };
+        const sync = new ScriptSync(oog, directory, {
+            report: text => reports.push(text),
+            ansiOptions: { colorDepth: ColorDepth.NONE },
+            debounce: 20,
+        });
+
+        try {
+            await waitMs(50);
+            writeFileSync(joinPath(directory, 'my_script.js'), 'function() {}');
+            writeFileSync(joinPath(directory, 'my_script.js'), 'function() { return 1 }');
+            writeFileSync(joinPath(directory, 'notes.txt'), 'not a script');
+
+            for (let i = 0; i < 100 && reports.length === 0; i++) await waitMs(10);
+        } finally {
+            sync.close();
+        }
+
+        assert.deepEqual(uploads, [ 'my_script' ]);
+        assert.deepEqual(reports, [ '✗ my_script: bad <thing>' ]);
+    });
+
+    test('rejects directories that don\'t exist', () => {
+        const oog = { uploadScript: async () => assert.fail() };
+        assert.throws(() => new ScriptSync(oog, '/nonexistent/scripts', { report: () => {} }), /Not a directory/);
+    });
+});
@@ -0,0 +1,152 @@
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { connect, Socket } from 'node:net';
+import { HmOog } from '../src/handling.js';
+import { HmOogServer } from '../src/server/server.js';
+import { ConsoleLogger, LogLevel } from '../src/logger.js';
+import { waitMs } from '../src/utils.js';
+import { startFakeGame } from './fakeGame.js';
+
+const token = 'secret';
+const servers: HmOogServer[] = [];
+
+afterEach(async () => {
+    await Promise.all(servers.splice(0).map(server => server.close()));
+});
+
+const startServer = async (oog: HmOog): Promise<number> => {
+    const server = new HmOogServer(oog, { token, port: 0 });
+    servers.push(server);
+    return server.listen();
+};
+
+const request = (port: number, method: string, path: string, body?: unknown) =>
+    fetch(`http://127.0.0.1:${port}${path}`, {
+        method,
+        headers: { Authorization: `Bearer ${token}` },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+/** A client frame with a zero mask, so the payload can stay as it is. */
+const clientFrame = (opcode: number, payload: string): Buffer =>
+    Buffer.concat([ Buffer.from([ 0x80 | opcode, 0x80 | payload.length, 0, 0, 0, 0 ]), Buffer.from(payload) ]);
+
+/**
+ * Opens a raw connection to the stream, collecting everything the server sends.
+ * @param extra Sent right behind the upgrade request, in the same packet
+ */
+const openStream = async (port: number, extra: Buffer = Buffer.alloc(0)) => {
+    const socket: Socket = connect(port, '127.0.0.1');
+    await once(socket, 'connect');
+
+    const chunks: Buffer[] = [];
+    socket.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+    socket.write(Buffer.concat([ Buffer.from([
+        `GET /stream?token=${token} HTTP/1.1`,
+        'Host: localhost',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==',
+        'Sec-WebSocket-Version: 13',
+        '',
+        '',
+    ].join('\r\n')), extra ]));
+
+    const received = () => Buffer.concat(chunks);
+    const waitFor = async (check: (data: Buffer) => boolean) => {
+        for (let i = 0; i < 200 && !check(received()); i++) await waitMs(5);
+        assert.ok(check(received()), JSON.stringify(received().toString('latin1')));
+    };
+
+    await waitFor(data => data.includes('\r\n\r\n'));
+    return { socket, received, waitFor };
+};
+
+describe('HmOogServer', () => {
+    test('turns away requests without the token', async () => {
+        const { oog } = await startFakeGame();
+        const port = await startServer(oog);
+
+        const response = await fetch(`http://127.0.0.1:${port}/status`);
+        assert.equal(response.status, 401);
+    });
+
+    test('runs commands', async () => {
+        const { fake, oog } = await startFakeGame();
+        fake.addScript('test.greet', () => ({ success: true, lines: [ 'hi' ] }));
+        const port = await startServer(oog);
+
+        const response = await request(port, 'POST', '/run', { command: 'test.greet' });
+        assert.equal(response.status, 200);
+        assert.deepEqual((await response.json()).result.uncolored.lines, [ 'Success', 'hi' ]);
+
+        const failure = await request(port, 'POST', '/run', { command: 'nobody.here' });
+        assert.equal(failure.status, 200);
+        assert.equal((await failure.json()).result.success, false);
+
+        assert.equal((await request(port, 'POST', '/run', {})).status, 400);
+        assert.equal((await request(port, 'POST', '/nothing')).status, 404);
+    });
+
+    test('reports the status', async () => {
+        const { oog } = await startFakeGame({ users: [ 'main' ] });
+        await oog.switchUser('main');
+        const port = await startServer(oog);
+
+        const status = await (await request(port, 'GET', '/status')).json();
+        assert.equal(status.user, 'main');
+        assert.equal(status.inHardline, false);
+        assert.equal(status.queueDepth, 0);
+    });
+
+    test('answers 503 before init', async () => {
+        const { fake } = await startFakeGame();
+        const oog = new HmOog({ shellPath: fake.shellPath, driver: fake, logger: new ConsoleLogger(LogLevel.SILENT) });
+
+        try {
+            const port = await startServer(oog);
+            assert.equal((await request(port, 'POST', '/run', { command: 'test.greet' })).status, 503);
+
+            const { received } = await openStream(port);
+            assert.match(received().toString(), /^HTTP\/1.1 503/);
+        } finally {
+            oog.close();
+        }
+    });
+
+    test('streams shell output', async () => {
+        const { fake, oog } = await startFakeGame();
+        fake.addScript('test.noop', () => []);
+        const port = await startServer(oog);
+
+        const { received, waitFor } = await openStream(port);
+        assert.match(received().toString(), /^HTTP\/1.1 101/);
+
+        fake.print('hello stream');
+        await oog.run('test.noop');
+
+        await waitFor(data => data.includes('hello stream'));
+    });
+
+    test('answers pings sent along with the upgrade request', async () => {
+        const { oog } = await startFakeGame();
+        const port = await startServer(oog);
+
+        const { waitFor } = await openStream(port, clientFrame(0x9, 'hi'));
+
+        await waitFor(data => data.includes(Buffer.from([ 0x8A, 2, ...Buffer.from('hi') ])));
+    });
+
+    test('disconnects clients sending oversized frames', { timeout: 2000 }, async () => {
+        const { oog } = await startFakeGame();
+        const port = await startServer(oog);
+
+        const { socket } = await openStream(port);
+        const closed = once(socket, 'close');
+        socket.write(Buffer.from([ 0x81, 0x80 | 127, 0, 0, 0, 1, 0, 0, 0, 0 ]));
+
+        await closed;
+    });
+});
@@ -0,0 +1,65 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { defaultTimingProfile, TimingTracker } from '../src/timing.js';
+import { startFakeGame } from './fakeGame.js';
+
+describe('TimingTracker', () => {
+    test('summarizes round trips and commands', () => {
+        const tracker = new TimingTracker(defaultTimingProfile);
+        for (const ms of [ 40, 10, 30, 20 ]) tracker.recordRoundTrip(ms);
+        tracker.recordCommand('accts.balance', 100);
+        tracker.recordCommand('accts.xfer_gc_to { to: "bob", amount: 1 }', 300);
+        tracker.recordCommand('accts.xfer_gc_to{}', 500);
+
+        const stats = tracker.getStats();
+        assert.deepEqual(stats.roundTrip, { count: 4, min: 10, max: 40, mean: 25, p50: 30, p90: 40 });
+        assert.deepEqual(Object.keys(stats.commands), [ 'accts.balance', 'accts.xfer_gc_to' ]);
+        assert.equal(stats.commands['accts.xfer_gc_to'].mean, 400);
+    });
+
+    test('keeps the profile as it is unless adaptive', () => {
+        const tracker = new TimingTracker(defaultTimingProfile);
+        for (let i = 0; i < 10; i++) tracker.recordRoundTrip(1000);
+
+        assert.deepEqual(tracker.getProfile(), defaultTimingProfile);
+        assert.equal(tracker.getStats().roundTrip?.count, 10);
+    });
+
+    test('scales the delays to the round trip in adaptive mode', () => {
+        const tracker = new TimingTracker({ ...defaultTimingProfile, adaptive: true, expectedRoundTrip: 100 });
+
+        tracker.recordRoundTrip(50);
+        tracker.recordRoundTrip(50);
+        assert.equal(tracker.getProfile().preCommandDelay, defaultTimingProfile.preCommandDelay);
+
+        tracker.recordRoundTrip(50);
+        const profile = tracker.getProfile();
+        assert.equal(profile.preCommandDelay, defaultTimingProfile.preCommandDelay / 2);
+        assert.equal(profile.keystrokeDelay, defaultTimingProfile.keystrokeDelay / 2);
+        assert.equal(profile.flushTimeout, defaultTimingProfile.flushTimeout);
+        assert.equal(profile.hardlineExitDelay, defaultTimingProfile.hardlineExitDelay);
+    });
+
+    test('grows the flush timeout for slow round trips, within limits', () => {
+        const tracker = new TimingTracker({ ...defaultTimingProfile, adaptive: true, expectedRoundTrip: 100 });
+        for (let i = 0; i < 3; i++) tracker.recordRoundTrip(100_000);
+
+        const profile = tracker.getProfile();
+        assert.equal(profile.postCommandDelay, defaultTimingProfile.postCommandDelay * 10);
+        assert.equal(profile.flushTimeout, defaultTimingProfile.flushTimeout * 10);
+    });
+});
+
+describe('HmOog.getLatencyStats', () => {
+    test('measures the commands that were run', async () => {
+        const { fake, oog } = await startFakeGame();
+        fake.addScript('test.noop', () => []);
+
+        await oog.run('test.noop');
+        await oog.run('test.noop');
+
+        const stats = oog.getLatencyStats();
+        assert.equal(stats.commands['test.noop'].count, 2);
+        assert.ok(stats.roundTrip !== null && stats.roundTrip.count > 0);
+    });
+});
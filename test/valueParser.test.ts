@@ -0,0 +1,52 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ValueParser } from '../src/valueParser.js';
+
+describe('ValueParser', () => {
+    test('parses objects with unquoted keys', () => {
+        assert.deepEqual(ValueParser.parse('{ name: "trust", level: 4, active: true, owner: null }'), {
+            name: 'trust',
+            level: 4,
+            active: true,
+            owner: null,
+        });
+    });
+
+    test('parses nested arrays and objects', () => {
+        assert.deepEqual(ValueParser.parse('[ { a: [ 1, -2.5, 3e2 ] }, [], {} ]'), [ { a: [ 1, -2.5, 300 ] }, [], {} ]);
+    });
+
+    test('parses quoted keys, single quotes and escapes', () => {
+        assert.deepEqual(ValueParser.parse('{ "a b": \'it\\\'s\', c: "line\\nbreak \\u00e9" }'), {
+            'a b': 'it\'s',
+            c: 'line\nbreak é',
+        });
+    });
+
+    test('maps undefined to null', () => {
+        assert.deepEqual(ValueParser.parse('[ undefined ]'), [ null ]);
+    });
+
+    test('allows trailing commas', () => {
+        assert.deepEqual(ValueParser.parse('{ a: 1, b: [ 2, ], }'), { a: 1, b: [ 2 ] });
+    });
+
+    test('reports where it got stuck', () => {
+        assert.throws(() => ValueParser.parse('{ a: 1 b: 2 }'), /Expected '}' at position 7, but got 'b'!/);
+        assert.throws(() => ValueParser.parse('"open'), /Expected " at position 5, but got EOF!/);
+        assert.throws(() => ValueParser.parse('1 2'), /Expected end of input/);
+    });
+
+    describe('tryParseStructured', () => {
+        test('parses objects and arrays', () => {
+            assert.deepEqual(ValueParser.tryParseStructured('  { a: 1 }\n'), { a: 1 });
+            assert.deepEqual(ValueParser.tryParseStructured('[ "x" ]'), [ 'x' ]);
+        });
+
+        test('leaves everything else alone', () => {
+            assert.equal(ValueParser.tryParseStructured('Success'), undefined);
+            assert.equal(ValueParser.tryParseStructured('42'), undefined);
+            assert.equal(ValueParser.tryParseStructured('{ not an object'), undefined);
+        });
+    });
+});